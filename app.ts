@@ -6,10 +6,15 @@ import authRoutes from "./routes/auth.routes.ts";
 import apiKeyRoutes from "./routes/apiKey.routes.ts";
 import protectedRoutes from "./routes/protected.routes.ts";
 import healthRoutes from './routes/health.routes.ts';
+import adminRoutes from './routes/admin.routes.ts';
+import limitsRoutes from './routes/limits.routes.ts';
+import quotaRoutes from './routes/quota.routes.ts';
+import rateLimitRoutes from './routes/rateLimit.routes.ts';
+import authRequestRoutes from './routes/authRequest.routes.ts';
+import proxyRoutes from './routes/proxy.routes.ts';
 import { errorHandler } from "./middlewares/errorHandler.ts";
 import mountSwagger from './middlewares/swagger.ts';
 import requestLogger from './middlewares/requestLogger.ts';
-import { cacheResponse } from './middlewares/cache.ts';
 import redis, { isRedisReady } from './utils/redis.ts';
 import logger from './utils/logger.ts';
 
@@ -61,7 +66,6 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN ? process.env.CORS_ORIGIN.split(',') : ['http://localhost:3000'],
   credentials: true,
 }));
-app.use(express.json());
 
 // Swagger UI (OpenAPI)
 mountSwagger(app);
@@ -80,14 +84,28 @@ if (sentryInitialized) {
 	});
 }
 
+// Upstream routes (config/gateway.yaml) take precedence; mounted before the body parser
+// so request bodies stream through to the upstream untouched
+app.use(proxyRoutes);
+
+app.use(express.json());
+
 app.use("/api/v1/auth", authRoutes);
 app.use("/api/v1/api-keys", apiKeyRoutes);
+// Before the protected API: inspecting limits and quota usage must not consume them
+app.use("/api/v1/limits", limitsRoutes);
+app.use("/api/v1/quota", quotaRoutes);
+// Decision API for internal services (x-service-token)
+app.use("/api/v1/ratelimit", rateLimitRoutes);
+// nginx auth_request subrequests (x-service-token)
+app.use("/api/v1/auth-request", authRequestRoutes);
 app.use("/api/v1", protectedRoutes);
 
 // Health check (redis, uptime)
 app.use('/health', healthRoutes);
 
-app.use(cacheResponse({ ttl: 60 }));
+// Operator endpoints (x-admin-token)
+app.use('/admin', adminRoutes);
 
 app.use(errorHandler);
 
@@ -0,0 +1,124 @@
+/**
+ * Admin Controller
+ * Operator endpoints, protected by adminAuthMiddleware
+ */
+
+import express from 'express';
+import z from 'zod';
+import { asyncHandler } from '../middlewares/errorHandler.ts';
+import { createSuccessResponse } from '../utils/response.ts';
+import { NotFoundError } from '../utils/errors.ts';
+import { getLimiterModes, setLimiterMode } from '../services/limiterModeService.ts';
+import { getProxyConfig } from '../services/proxyConfigService.ts';
+import { getCircuitState, setCircuitState } from '../services/circuitBreakerService.ts';
+import { purgeCache } from '../services/responseCacheService.ts';
+
+const limiterModeSchema = z.object({
+  mode: z.enum(['enforce', 'shadow']).nullable(),
+});
+
+const circuitStateSchema = z.object({
+  state: z.enum(['open', 'closed']),
+});
+
+const cachePurgeSchema = z
+  .object({
+    tags: z.array(z.string().min(1)).min(1).optional(),
+    prefix: z.string().startsWith('/').optional(),
+  })
+  .refine((filter) => !!filter.tags || !!filter.prefix, {
+    message: 'At least one of `tags` or `prefix` is required',
+  });
+
+/**
+ * Upstreams with a circuit breaker configured
+ */
+function breakerUpstreams() {
+  return getProxyConfig().upstreams.filter((upstream) => upstream.circuitBreaker);
+}
+
+/**
+ * GET /admin/limiters
+ * List limiters with their effective mode and shadow rejection counts
+ */
+export const listLimitersController = asyncHandler(
+  async (_req: express.Request, res: express.Response): Promise<void> => {
+    res
+      .status(200)
+      .json(createSuccessResponse(getLimiterModes(), 'Limiters retrieved successfully'));
+  }
+);
+
+/**
+ * PUT /admin/limiters/:name/mode
+ * Switch a limiter between enforce and shadow mode (null restores the policy file's mode)
+ */
+export const setLimiterModeController = asyncHandler(
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    const { name } = req.params;
+    const { mode } = limiterModeSchema.parse(req.body);
+
+    await setLimiterMode(name, mode);
+
+    res
+      .status(200)
+      .json(createSuccessResponse({ name, mode }, 'Limiter mode updated successfully'));
+  }
+);
+
+/**
+ * GET /admin/circuit-breakers
+ * State and rolling-window counts of every upstream circuit breaker
+ */
+export const listCircuitBreakersController = asyncHandler(
+  async (_req: express.Request, res: express.Response): Promise<void> => {
+    const breakers = await Promise.all(
+      breakerUpstreams().map((upstream) => getCircuitState(upstream.name, upstream.circuitBreaker!))
+    );
+
+    res
+      .status(200)
+      .json(createSuccessResponse(breakers, 'Circuit breakers retrieved successfully'));
+  }
+);
+
+/**
+ * PUT /admin/circuit-breakers/:name
+ * Force an upstream's breaker open (for its openMs) or closed
+ */
+export const setCircuitBreakerController = asyncHandler(
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    const { name } = req.params;
+    const { state } = circuitStateSchema.parse(req.body);
+
+    const upstream = breakerUpstreams().find((candidate) => candidate.name === name);
+    if (!upstream) {
+      throw new NotFoundError('Circuit breaker');
+    }
+
+    await setCircuitState(name, upstream.circuitBreaker!, state);
+
+    res
+      .status(200)
+      .json(
+        createSuccessResponse(
+          await getCircuitState(name, upstream.circuitBreaker!),
+          'Circuit breaker updated successfully'
+        )
+      );
+  }
+);
+
+/**
+ * POST /admin/cache/purge
+ * Remove cached responses by tag and/or path prefix, across API keys and replicas
+ */
+export const purgeCacheController = asyncHandler(
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    const filter = cachePurgeSchema.parse(req.body);
+
+    const purged = await purgeCache(filter);
+
+    res.status(200).json(createSuccessResponse({ purged }, 'Cache purged successfully'));
+  }
+);
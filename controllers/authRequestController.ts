@@ -0,0 +1,93 @@
+/**
+ * Auth Request Controller
+ * Subrequest endpoint for nginx `auth_request`: authorizes the original request and
+ * charges it to the key's plan and route limits, so nginx-fronted services get the same
+ * API key handling as routes served by the gateway itself.
+ *
+ * nginx only passes 2xx, 401 and 403 through; any other status (429 included) becomes a
+ * 500 unless mapped with `error_page` (see README).
+ */
+
+import express from 'express';
+import { authenticateApiKey } from '../middlewares/apiKeyAuth.ts';
+import { asyncHandler, asyncMiddleware } from '../middlewares/errorHandler.ts';
+import { logRequest } from '../services/rateLimitService.ts';
+import logger from '../utils/logger.ts';
+import { ValidationError } from '../utils/errors.ts';
+
+/**
+ * Read the original request from the headers nginx forwards:
+ *   X-Original-URI    ($request_uri)
+ *   X-Original-Method ($request_method)
+ * The API key arrives in the original `x-api-key` / `Authorization` headers, which
+ * auth_request passes through unchanged, or in the original URI's `apiKey` parameter.
+ */
+export const originalRequestMiddleware = asyncMiddleware(
+  async (
+    req: express.Request,
+    _res: express.Response,
+    next: express.NextFunction
+  ): Promise<void> => {
+    const uri = req.get('x-original-uri');
+    if (!uri || !uri.startsWith('/')) {
+      throw new ValidationError('X-Original-URI header is required');
+    }
+
+    (req as any).originalUri = uri;
+    (req as any).originalPath = new URL(uri, 'http://localhost').pathname;
+    (req as any).originalMethod = (req.get('x-original-method') || req.method).toUpperCase();
+    // Logged duration covers authentication and the limiters
+    (req as any).authStartTime = Date.now();
+
+    next();
+  }
+);
+
+/**
+ * Authenticate the key of the original request, like apiKeyAuthMiddleware does for the
+ * gateway's own routes
+ */
+export const originalApiKeyAuthMiddleware = asyncMiddleware(
+  async (
+    req: express.Request,
+    _res: express.Response,
+    next: express.NextFunction
+  ): Promise<void> => {
+    const { userId, apiKeyId, apiKey } = await authenticateApiKey(req, (req as any).originalUri);
+
+    (req as any).userId = userId;
+    (req as any).apiKeyId = apiKeyId;
+    (req as any).apiKey = apiKey;
+
+    next();
+  }
+);
+
+/**
+ * /api/v1/auth-request
+ * Reached only when the key is valid and within its limits: answers 204 with the caller's
+ * identity for nginx to copy to the upstream (`auth_request_set`). Rate limit headers were
+ * set by the limiters.
+ */
+export const authRequestController = asyncHandler(
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    const apiKeyId = (req as any).apiKeyId;
+
+    logRequest(
+      apiKeyId,
+      `${(req as any).originalMethod} ${(req as any).originalPath}`,
+      204,
+      Date.now() - (req as any).authStartTime,
+      req.ip
+    ).catch((err: any) => {
+      logger.warn('Failed to log auth request', {
+        requestId: (req as any).requestId,
+        error: err && (err.message || err),
+      });
+    });
+
+    res.set('X-User-Id', (req as any).userId);
+    res.set('X-Api-Key-Id', apiKeyId);
+    res.status(204).end();
+  }
+);
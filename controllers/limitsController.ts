@@ -0,0 +1,110 @@
+/**
+ * Limits Controller
+ * Read-only view of every limit that applies to the calling API key
+ */
+
+import express from 'express';
+import { asyncHandler } from '../middlewares/errorHandler.ts';
+import { inspectRateLimit, limiterConfigFromPolicy } from '../middlewares/rateLimiter.ts';
+import { inspectRouteLimits } from '../middlewares/routeRateLimiter.ts';
+import { checkRateLimits } from '../services/rateLimitService.ts';
+import { getPolicy } from '../services/policyService.ts';
+import type { LimitDecision, RateLimitAlgorithm } from '../services/rateLimitAlgorithms.ts';
+import { ServiceUnavailableError } from '../utils/errors.ts';
+import { isRedisReady } from '../utils/redis.ts';
+import { createSuccessResponse } from '../utils/response.ts';
+
+interface LimitWindow {
+  name: string; // same name as in the RateLimit-Policy header
+  type: 'plan' | 'route' | 'limiter';
+  window?: string; // plan and route windows: minute, hour, day or burst
+  algorithm?: RateLimitAlgorithm; // global limiters
+  windowMs: number;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetTime: Date;
+}
+
+/**
+ * GET /api/v1/limits
+ * Plan windows, burst, route limits and global limiters for the calling key.
+ * Nothing is consumed or recorded, so calling this never uses up quota.
+ */
+export const getLimitsController = asyncHandler(
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    const apiKeyId = (req as any).apiKeyId;
+    const limits: LimitWindow[] = [];
+
+    const plan = await checkRateLimits(apiKeyId);
+    for (const window of plan.windows || []) {
+      limits.push({
+        name: window.scope === 'user' ? `user:${window.constraint}` : `${window.constraint}`,
+        type: 'plan',
+        window: `${window.constraint}`,
+        windowMs: window.windowMs || 60_000,
+        limit: window.limit,
+        used: Math.ceil(window.used ?? window.limit - window.remaining),
+        remaining: window.remaining,
+        resetTime: window.resetTime,
+      });
+    }
+
+    // Route limits and global limiters are inspected under their failure policy, as they
+    // are enforced
+    const policy = getPolicy();
+    let degraded = !isRedisReady();
+    for (const { route, windows } of await inspectRouteLimits(apiKeyId, policy.routes)) {
+      if (!windows) {
+        // Fails open or closed: there is no state to report until Redis is back
+        degraded = true;
+        continue;
+      }
+      const routeKey = route.name || route.pattern.source;
+      for (const { window, windowMs, decision } of windows) {
+        limits.push({
+          name: `route:${routeKey}:${window}`,
+          type: 'route',
+          window,
+          windowMs,
+          limit: decision.limit,
+          used: Math.ceil(decision.used),
+          remaining: decision.remaining,
+          resetTime: new Date(decision.resetTime),
+        });
+      }
+    }
+
+    for (const [name, limiter] of Object.entries(policy.limiters)) {
+      let decision: LimitDecision | null;
+      try {
+        decision = await inspectRateLimit(req, limiterConfigFromPolicy(name, limiter));
+      } catch (err) {
+        if (!(err instanceof ServiceUnavailableError)) throw err;
+        // Fails closed: there is no state to report until Redis is back
+        degraded = true;
+        continue;
+      }
+      if (!decision) continue;
+      limits.push({
+        name,
+        type: 'limiter',
+        algorithm: limiter.algorithm,
+        windowMs: limiter.windowMs,
+        limit: decision.limit,
+        used: Math.ceil(decision.used),
+        remaining: decision.remaining,
+        resetTime: new Date(decision.resetTime),
+      });
+    }
+
+    res
+      .status(200)
+      .json(
+        createSuccessResponse(
+          { scope: plan.scope, degraded, limits },
+          'Limits retrieved successfully'
+        )
+      );
+  }
+);
@@ -0,0 +1,41 @@
+/**
+ * Quota Controller
+ * Read-only view of the calling API key's monthly quota
+ */
+
+import express from 'express';
+import { asyncHandler } from '../middlewares/errorHandler.ts';
+import { getPlanQuota } from '../services/rateLimitService.ts';
+import { getQuotaUsage } from '../services/quotaService.ts';
+import { createSuccessResponse } from '../utils/response.ts';
+
+/**
+ * GET /api/v1/quota
+ * Current billing cycle's quota consumption for the calling key. Nothing is consumed or
+ * recorded, so checking the quota never uses it up.
+ */
+export const getQuotaController = asyncHandler(
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    const apiKeyId = (req as any).apiKeyId;
+
+    const quota = await getPlanQuota(apiKeyId);
+    const usage = await getQuotaUsage(apiKeyId, quota);
+
+    res.status(200).json(
+      createSuccessResponse(
+        {
+          quota: usage.quota,
+          used: usage.used,
+          remaining: usage.remaining,
+          overage: usage.overage,
+          softLimit: usage.softLimit,
+          softLimitReached: usage.softLimitReached,
+          overageAllowed: usage.overageAllowed,
+          cycleStart: usage.cycleStart,
+          cycleEnd: usage.cycleEnd,
+        },
+        'Quota usage retrieved successfully'
+      )
+    );
+  }
+);
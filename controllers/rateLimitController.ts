@@ -0,0 +1,125 @@
+/**
+ * Rate Limit Decision Controller
+ * Lets internal services reuse the gateway's limiters without proxying traffic through it.
+ * Checks run on the same engine and Redis counters as the Express limiters, so a policy
+ * checked here and in the gateway shares one budget per identifier.
+ */
+
+import express from 'express';
+import z from 'zod';
+import { asyncHandler } from '../middlewares/errorHandler.ts';
+import { decideRateLimit, limiterConfigFromPolicy } from '../middlewares/rateLimiter.ts';
+import { getLimiterPolicy, type LimiterPolicy } from '../services/policyService.ts';
+import { getLimiterMode, rejectOrShadow } from '../services/limiterModeService.ts';
+import { NotFoundError, RateLimitError } from '../utils/errors.ts';
+import { createSuccessResponse } from '../utils/response.ts';
+
+const descriptorSchema = z.object({
+  identifier: z.string().min(1).max(256),
+  policy: z.string().min(1), // limiter name in the policy file
+  cost: z.number().int().positive().optional(), // defaults to the limiter's weight
+  consume: z.boolean().default(true), // false: only peek, nothing is recorded
+});
+
+const batchSchema = z.object({
+  checks: z.array(descriptorSchema).min(1).max(100),
+});
+
+type Descriptor = z.infer<typeof descriptorSchema>;
+
+function resolvePolicy(name: string): LimiterPolicy {
+  const policy = getLimiterPolicy(name);
+  if (!policy) {
+    throw new NotFoundError(`Rate limit policy '${name}'`);
+  }
+  return policy;
+}
+
+/**
+ * Evaluate one descriptor against its limiter
+ */
+async function check(
+  req: express.Request,
+  res: express.Response,
+  descriptor: Descriptor,
+  policy: LimiterPolicy
+) {
+  const config = limiterConfigFromPolicy(descriptor.policy, policy);
+  const cost = descriptor.cost ?? policy.weight;
+  const decision = await decideRateLimit(config, descriptor.identifier, cost, descriptor.consume);
+
+  if (!decision) {
+    // Redis unavailable and the limiter fails open
+    return {
+      policy: descriptor.policy,
+      identifier: descriptor.identifier,
+      allowed: true,
+      consumed: false,
+      degraded: true,
+      limit: config.maxRequests,
+      remaining: null,
+      resetTime: null,
+      retryAfter: 0,
+    };
+  }
+
+  // Shadow limiters record the would-be rejection and allow the request
+  const shadow = !decision.allowed && getLimiterMode(config.name, config.mode) === 'shadow';
+  if (shadow) {
+    rejectOrShadow(
+      req,
+      res,
+      config.name,
+      'shadow',
+      new RateLimitError('Rate limit exceeded', { retryAfter: decision.retryAfter })
+    );
+  }
+
+  return {
+    policy: descriptor.policy,
+    identifier: descriptor.identifier,
+    allowed: decision.allowed || shadow,
+    consumed: descriptor.consume && decision.allowed,
+    ...(shadow ? { shadow } : {}),
+    limit: decision.limit,
+    remaining: decision.remaining,
+    resetTime: new Date(decision.resetTime),
+    retryAfter: decision.allowed ? 0 : decision.retryAfter,
+  };
+}
+
+/**
+ * POST /api/v1/ratelimit/check
+ * Body: { identifier, policy, cost?, consume? }
+ * Always 200: a denial is part of the decision, not an error of this endpoint.
+ */
+export const checkRateLimitController = asyncHandler(
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    const descriptor = descriptorSchema.parse(req.body);
+    const policy = resolvePolicy(descriptor.policy);
+
+    const result = await check(req, res, descriptor, policy);
+
+    res.status(200).json(createSuccessResponse(result, 'Rate limit checked'));
+  }
+);
+
+/**
+ * POST /api/v1/ratelimit/check/batch
+ * Body: { checks: [{ identifier, policy, cost?, consume? }, ...] }
+ * Checks are independent and evaluated in order; every policy is validated before any
+ * check runs, so an unknown policy never leaves the batch half-consumed.
+ */
+export const checkRateLimitBatchController = asyncHandler(
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    const { checks } = batchSchema.parse(req.body);
+    const policies = checks.map((descriptor) => resolvePolicy(descriptor.policy));
+
+    const results = [];
+    for (let i = 0; i < checks.length; i++) {
+      results.push(await check(req, res, checks[i], policies[i]));
+    }
+
+    res.status(200).json(createSuccessResponse({ results }, 'Rate limits checked'));
+  }
+);
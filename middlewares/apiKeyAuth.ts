@@ -1,10 +1,12 @@
+import crypto from 'crypto';
+import type http from 'http';
 import express from 'express';
 import { validateApiKey } from '../services/apiKeyService.ts';
-import { AuthenticationError } from '../utils/errors.ts';
+import { AuthenticationError, AuthorizationError } from '../utils/errors.ts';
 import { verifyAccessToken } from '../utils/authHelper.ts';
 
 
-function extractApiKey(req: express.Request): string | null {
+function extractApiKey(req: http.IncomingMessage, url: string = req.url || '/'): string | null {
   // Check x-api-key header
   const headerKey = req.headers['x-api-key'] as string;
   if (headerKey) {
@@ -17,8 +19,8 @@ function extractApiKey(req: express.Request): string | null {
     return authHeader.substring(7);
   }
 
-  // Check query parameter (optional, for testing)
-  const queryKey = req.query.apiKey as string;
+  // Check query parameter (optional, for testing; also for browser WebSockets, which can't set headers)
+  const queryKey = new URL(url, 'http://localhost').searchParams.get('apiKey');
   if (queryKey) {
     return queryKey;
   }
@@ -26,27 +28,40 @@ function extractApiKey(req: express.Request): string | null {
   return null;
 }
 
+/**
+ * Validate the request's API key. Also used for WebSocket upgrades, which bypass Express.
+ * `url` is where an `apiKey` query parameter is looked for (the request's own by default).
+ */
+export async function authenticateApiKey(
+  req: http.IncomingMessage,
+  url?: string
+): Promise<{ userId: string; apiKeyId: string; apiKey: string }> {
+  const apiKey = extractApiKey(req, url);
+
+  if (!apiKey) {
+    throw new AuthenticationError('API key is required (use x-api-key header or Authorization: Bearer <key>)');
+  }
+
+  const result = await validateApiKey(apiKey);
+
+  if (!result) {
+    throw new AuthenticationError('Invalid or revoked API key');
+  }
+
+  return { ...result, apiKey };
+}
+
 export async function apiKeyAuthMiddleware(
   req: express.Request,
   _res: express.Response,
   next: express.NextFunction
 ): Promise<void> {
   try {
-    const apiKey = extractApiKey(req);
-
-    if (!apiKey) {
-      throw new AuthenticationError('API key is required (use x-api-key header or Authorization: Bearer <key>)');
-    }
-
-    const result = await validateApiKey(apiKey);
-
-    if (!result) {
-      throw new AuthenticationError('Invalid or revoked API key');
-    }
+    const { userId, apiKeyId, apiKey } = await authenticateApiKey(req);
 
     // Attach userId and apiKeyId to request for use in controllers
-    (req as any).userId = result.userId;
-    (req as any).apiKeyId = result.apiKeyId;
+    (req as any).userId = userId;
+    (req as any).apiKeyId = apiKeyId;
     (req as any).apiKey = apiKey;
 
     next();
@@ -101,3 +116,69 @@ export async function jwtAuthMiddleware(
     throw new AuthenticationError('Invalid or expired JWT token');
   }
 }
+
+
+/**
+ * Constant-time token comparison
+ */
+function tokensMatch(expected: string, provided: string): boolean {
+  const expectedBuf = Buffer.from(expected);
+  const providedBuf = Buffer.from(provided);
+  return (
+    expectedBuf.length === providedBuf.length && crypto.timingSafeEqual(expectedBuf, providedBuf)
+  );
+}
+
+/**
+ * Middleware for operator/admin endpoints
+ * Requires the `x-admin-token` header to match ADMIN_API_TOKEN; the admin API is
+ * disabled entirely when ADMIN_API_TOKEN is not set.
+ */
+export async function adminAuthMiddleware(
+  req: express.Request,
+  _res: express.Response,
+  next: express.NextFunction
+): Promise<void> {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    throw new AuthorizationError('Admin API is disabled');
+  }
+
+  const provided = req.headers['x-admin-token'];
+  if (typeof provided !== 'string' || !provided) {
+    throw new AuthenticationError('Admin token is required (x-admin-token header)');
+  }
+
+  if (!tokensMatch(expected, provided)) {
+    throw new AuthenticationError('Invalid admin token');
+  }
+
+  next();
+}
+
+/**
+ * Middleware for internal service-to-service endpoints
+ * Requires the `x-service-token` header to match RATE_LIMIT_SERVICE_TOKEN; the endpoints
+ * are disabled entirely when RATE_LIMIT_SERVICE_TOKEN is not set.
+ */
+export async function serviceAuthMiddleware(
+  req: express.Request,
+  _res: express.Response,
+  next: express.NextFunction
+): Promise<void> {
+  const expected = process.env.RATE_LIMIT_SERVICE_TOKEN;
+  if (!expected) {
+    throw new AuthorizationError('Rate limit service API is disabled');
+  }
+
+  const provided = req.headers['x-service-token'];
+  if (typeof provided !== 'string' || !provided) {
+    throw new AuthenticationError('Service token is required (x-service-token header)');
+  }
+
+  if (!tokensMatch(expected, provided)) {
+    throw new AuthenticationError('Invalid service token');
+  }
+
+  next();
+}
@@ -1,54 +1,177 @@
+/**
+ * Response cache middleware
+ * Answers GET/HEAD requests from stored responses before the handler runs and stores
+ * cacheable GET responses on the way out, following Cache-Control, Vary and ETag
+ * (see utils/httpCache.ts). Identical GETs arriving while one is in flight wait for its
+ * response instead of reaching the handler (`coalesce`). `X-Cache` tells whether a
+ * response was a HIT, COALESCED, a MISS or bypassed the cache (BYPASS). Mount it after
+ * authentication and the limiters: hits and coalesced requests are charged like any other.
+ * Proxy-only: mounted on the proxied routes with each route's `cache` config
+ * (routes/proxy.routes.ts); the gateway's own endpoints are never cached.
+ */
+
 import express from 'express';
-import redis, { isRedisReady } from '../utils/redis.ts';
+import { asyncMiddleware } from './errorHandler.ts';
+import { isRedisReady } from '../utils/redis.ts';
 import logger from '../utils/logger.ts';
+import { captureBody } from '../utils/responseCapture.ts';
+import { createRequestCoalescer } from '../utils/requestCoalescer.ts';
+import {
+  acceptsStored,
+  bodyEtag,
+  etagMatches,
+  parseCacheControl,
+  responseLifetime,
+  storableHeaders,
+  variantId,
+  varyHeaders,
+  type CacheOptions,
+} from '../utils/httpCache.ts';
+import {
+  cacheScope,
+  lookupCachedResponse,
+  storeCachedResponse,
+  type CachedResponse,
+} from '../services/responseCacheService.ts';
+import { stripCredentialQuery } from '../services/proxyTransformService.ts';
+
+const MAX_CACHED_BODY_BYTES = 1024 * 1024;
 
-interface CacheOptions {
-  ttl?: number; // seconds
+// A storable response handed from the request that fetched it to identical ones waiting
+interface SharedResponse {
+  response: CachedResponse;
+  vary: string[];
+  variant: string; // of the request that fetched it
 }
 
-export function cacheResponse(options: CacheOptions = { ttl: 60 }) {
-  const ttl = options.ttl ?? 60;
+const coalescer = createRequestCoalescer<SharedResponse>();
 
-  return async function (req: express.Request, res: express.Response, next: express.NextFunction) {
-    // Only cache GET requests
-    if (req.method !== 'GET') return next();
+// Headers a 304 repeats from the stored response (RFC 9110 §15.4.5)
+const NOT_MODIFIED_HEADERS = ['cache-control', 'content-location', 'expires', 'vary'];
+
+/**
+ * Path and query the response is stored under, without the `?apiKey=` credential
+ */
+function cacheUrl(req: express.Request): string {
+  const url = new URL(req.originalUrl, 'http://gateway');
+  stripCredentialQuery(url);
+  return url.pathname + url.search;
+}
 
-    // If Redis is not ready, skip cache to avoid errors
-    if (!isRedisReady()) {
-      return next();
+function sendStored(
+  req: express.Request,
+  res: express.Response,
+  stored: CachedResponse,
+  age: number,
+  outcome: 'HIT' | 'COALESCED'
+): void {
+  const notModified = etagMatches(req.get('if-none-match'), stored.etag);
+  for (const [name, value] of Object.entries(stored.headers)) {
+    if (!notModified || NOT_MODIFIED_HEADERS.includes(name)) {
+      res.setHeader(name, value);
     }
+  }
+  res.setHeader('ETag', stored.etag);
+  res.setHeader('Age', String(age));
+  res.setHeader('X-Cache', outcome);
+
+  if (notModified) {
+    res.status(304).end();
+    return;
+  }
+  res.setHeader('Content-Length', stored.body.length);
+  res.status(stored.status).end(req.method === 'HEAD' ? undefined : stored.body);
+}
+
+/**
+ * Cache responses with fixed options, or with per-request options such as the matched
+ * proxy route's `cache` (no caching when the function returns undefined).
+ */
+export function cacheResponse(
+  options: CacheOptions | ((req: express.Request) => CacheOptions | undefined)
+) {
+  return asyncMiddleware(
+    async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+      const config = typeof options === 'function' ? options(req) : options;
+      if (!config || (req.method !== 'GET' && req.method !== 'HEAD')) return next();
+
+      const scope = cacheScope(config, (req as any).apiKeyId);
+      if (!scope || /text\/event-stream/i.test(req.get('accept') || '')) return next();
 
-    // Include API key in cache key for per-user caching (security: different users don't share cached responses)
-    const apiKey = (req.headers['x-api-key'] as string) || ((req.headers.authorization as string) || '').replace(/^Bearer\s+/, '');
-    const safeKeyPart = apiKey ? `${apiKey}:` : 'anon:';
-    const key = `cache:${safeKeyPart}${req.originalUrl}`;
-
-    try {
-      const cached = await redis.get(key);
-      if (cached) {
-        res.setHeader('X-Cache', 'HIT');
-        res.setHeader('Content-Type', 'application/json');
-        return res.status(200).send(cached);
+      const url = cacheUrl(req);
+      const noStore = !!parseCacheControl(req.headers['cache-control'])['no-store'];
+      const useStore = isRedisReady() && !noStore;
+      if (useStore) {
+        try {
+          const stored = await lookupCachedResponse(scope, url, req.headers);
+          if (stored) {
+            const age = Math.max(0, Math.floor((Date.now() - stored.storedAt) / 1000));
+            if (acceptsStored(req.headers, age)) {
+              sendStored(req, res, stored, age, 'HIT');
+              return;
+            }
+          }
+        } catch (err: any) {
+          logger.warn('Response cache lookup failed', {
+            requestId: (req as any).requestId,
+            error: err && (err.message || err),
+          });
+        }
       }
-    } catch (err) {
-      logger.warn('Redis cache read failed', err as any);
-    }
 
-    // Capture send to cache the response
-    const originalSend = res.send.bind(res);
-    (res as any).send = async (body: any) => {
-      try {
-        if (res.statusCode === 200 && body) {
-          const str = typeof body === 'string' ? body : JSON.stringify(body);
-          await redis.setex(key, ttl, str);
-          res.setHeader('X-Cache', 'MISS');
+      res.setHeader('X-Cache', useStore ? 'MISS' : 'BYPASS');
+      if (req.method !== 'GET') return next();
+
+      // A request asking for a fresh response (no-cache, no-store) makes its own call
+      const coalesce = config.coalesce && !noStore && acceptsStored(req.headers, 0);
+      const flight = coalesce ? coalescer.join(`${scope}:${url}`) : null;
+      if (flight && !flight.leader) {
+        const shared = await flight.result;
+        if (res.destroyed) return;
+        // Only a response selected by the same Vary headers may be handed over
+        if (shared && variantId(req.headers, shared.vary) === shared.variant) {
+          sendStored(req, res, shared.response, 0, 'COALESCED');
+          return;
         }
-      } catch (err) {
-        logger.warn('Redis cache write failed', err as any);
+        return next();
       }
-      return originalSend(body);
-    };
 
-    next();
-  };
+      const capturedBody = captureBody(res, MAX_CACHED_BODY_BYTES);
+      res.once('close', () => {
+        const headers = res.getHeaders();
+        const lifetime = responseLifetime(res.statusCode, headers, config);
+        const vary = varyHeaders(headers);
+        const body = capturedBody();
+        if (!res.writableFinished || !lifetime || !vary || !body) {
+          flight?.settle(null);
+          return;
+        }
+
+        const response: CachedResponse = {
+          status: res.statusCode,
+          headers: storableHeaders(headers),
+          body,
+          etag: headers['etag'] ? String(headers['etag']) : bodyEtag(body),
+          storedAt: Date.now(),
+        };
+        flight?.settle({ response, vary, variant: variantId(req.headers, vary) });
+        if (!useStore) return;
+
+        const tags = String(headers['cache-tag'] ?? '')
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter(Boolean);
+        storeCachedResponse(scope, url, req.headers, vary, response, lifetime, [
+          ...new Set([...config.tags, ...tags]),
+        ]).catch((err: any) => {
+          logger.warn('Response cache write failed', {
+            requestId: (req as any).requestId,
+            error: err && (err.message || err),
+          });
+        });
+      });
+
+      next();
+    }
+  );
 }
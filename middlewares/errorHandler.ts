@@ -59,16 +59,22 @@ export function errorHandler(
       });
     }
 
+    // Errors that know when to retry (429/503) carry it in details
+    if (err.details?.retryAfter && !res.getHeader('Retry-After')) {
+      res.set('Retry-After', String(err.details.retryAfter));
+    }
+
     const response = createErrorResponse(err.code, err.message, err.details);
-    return res.status(err.statusCode).json(response);
+    res.status(err.statusCode).json(response);
+    return;
   }
 
   // Handle Zod validation errors
   if (err.name === 'ZodError') {
-    const validationErrors = (err as any).errors.reduce(
+    const validationErrors = (err as any).issues.reduce(
       (acc: any, e: any) => ({
         ...acc,
-        [e.path.join('.')]: e.message,
+        [e.path.map(String).join('.')]: e.message,
       }),
       {}
     );
@@ -86,7 +92,8 @@ export function errorHandler(
       'Validation failed',
       validationErrors
     );
-    return res.status(400).json(response);
+    res.status(400).json(response);
+    return;
   }
 
   // Handle JWT errors
@@ -102,7 +109,8 @@ export function errorHandler(
       ErrorCode.UNAUTHORIZED,
       'Invalid or expired token'
     );
-    return res.status(401).json(response);
+    res.status(401).json(response);
+    return;
   }
 
   if (err.name === 'TokenExpiredError') {
@@ -117,7 +125,8 @@ export function errorHandler(
       ErrorCode.UNAUTHORIZED,
       'Token has expired'
     );
-    return res.status(401).json(response);
+    res.status(401).json(response);
+    return;
   }
 
   // Handle database/prisma errors
@@ -127,7 +136,8 @@ export function errorHandler(
       ErrorCode.NOT_FOUND,
       'Resource not found'
     );
-    return res.status(404).json(response);
+    res.status(404).json(response);
+    return;
   }
 
   if ((err as any).code === 'P2002') {
@@ -137,7 +147,8 @@ export function errorHandler(
       ErrorCode.CONFLICT,
       `${field} already exists`
     );
-    return res.status(409).json(response);
+    res.status(409).json(response);
+    return;
   }
 
   // Handle general database errors
@@ -155,7 +166,8 @@ export function errorHandler(
         ? 'Database operation failed'
         : err.message
     );
-    return res.status(500).json(response);
+    res.status(500).json(response);
+    return;
   }
 
   // Generic/unhandled error
@@ -172,7 +184,7 @@ export function errorHandler(
       ? 'Internal server error'
       : err.message
   );
-  return res.status(500).json(response);
+  res.status(500).json(response);
 }
 
 /**
@@ -0,0 +1,115 @@
+/**
+ * Idempotency-Key middleware
+ * A request carrying an `Idempotency-Key` header runs once per user and key. Retries get
+ * the first response replayed (flagged `Idempotent-Replayed: true`), a duplicate arriving
+ * while the first is still running gets 409, and reusing the key for a different request
+ * (method, path or body) gets 422. Responses with a 5xx status aren't kept, so the request
+ * can be retried. Mount it after authentication (it needs `req.userId`) and the JSON body
+ * parser.
+ */
+
+import crypto from 'crypto';
+import express from 'express';
+import { isRedisReady } from '../utils/redis.ts';
+import logger from '../utils/logger.ts';
+import { captureBody } from '../utils/responseCapture.ts';
+import { storableHeaders } from '../utils/httpCache.ts';
+import {
+  ConflictError,
+  IdempotencyKeyReusedError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../utils/errors.ts';
+import {
+  abandonIdempotentRequest,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  type StoredResponse,
+} from '../services/idempotencyService.ts';
+
+const MAX_STORED_BODY_BYTES = 1024 * 1024;
+
+// Visible ASCII, like the header's sf-string value in the IETF draft
+const IDEMPOTENCY_KEY = /^[\x21-\x7e]{1,255}$/;
+
+function requestFingerprint(req: express.Request): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.originalUrl}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex');
+}
+
+function replay(res: express.Response, response: StoredResponse): void {
+  for (const [name, value] of Object.entries(response.headers)) {
+    res.setHeader(name, value);
+  }
+  res.setHeader('Idempotent-Replayed', 'true');
+  res.setHeader('Content-Length', response.body.length);
+  res.status(response.status).end(response.body);
+}
+
+export async function idempotencyMiddleware(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+): Promise<void> {
+  const key = req.get('idempotency-key');
+  const userId = (req as any).userId;
+  if (key === undefined || !userId) {
+    return next();
+  }
+
+  if (!IDEMPOTENCY_KEY.test(key)) {
+    throw new ValidationError('Idempotency-Key must be 1 to 255 visible ASCII characters');
+  }
+  // Running the request unprotected would defeat the point of sending a key
+  if (!isRedisReady()) {
+    throw new ServiceUnavailableError('Idempotency keys are temporarily unavailable', {
+      retryAfter: 1,
+    });
+  }
+
+  const fingerprint = requestFingerprint(req);
+  const begun = await beginIdempotentRequest(userId, key, fingerprint);
+  if ('existing' in begun) {
+    const { existing } = begun;
+    if (existing.fingerprint !== fingerprint) {
+      throw new IdempotencyKeyReusedError();
+    }
+    if (existing.state === 'pending') {
+      throw new ConflictError('A request with this Idempotency-Key is still in progress', {
+        retryAfter: 1,
+      });
+    }
+    replay(res, existing.response);
+    return;
+  }
+
+  const { claim } = begun;
+  const capturedBody = captureBody(res, MAX_STORED_BODY_BYTES);
+  res.once('close', () => {
+    const body = capturedBody();
+    const settled =
+      res.writableEnded && res.statusCode < 500 && body
+        ? completeIdempotentRequest(claim, {
+            status: res.statusCode,
+            headers: storableHeaders(res.getHeaders()),
+            body,
+          }).then((stored) => {
+            if (!stored) {
+              logger.warn('Idempotency key expired before its response was stored', {
+                requestId: (req as any).requestId,
+              });
+            }
+          })
+        : abandonIdempotentRequest(claim);
+    settled.catch((err: any) => {
+      logger.warn('Failed to settle idempotency key', {
+        requestId: (req as any).requestId,
+        error: err && (err.message || err),
+      });
+    });
+  });
+
+  next();
+}
@@ -0,0 +1,203 @@
+/**
+ * Reverse proxy middleware
+ * Matches requests against the gateway route table and forwards them upstream
+ */
+
+import type http from 'http';
+import express from 'express';
+import { asyncHandler } from './errorHandler.ts';
+import {
+  forwardRequest,
+  matchProxyRoute,
+  readReplayableBody,
+  transformContext,
+  type ProxyRoute,
+} from '../services/proxyService.ts';
+import { getPool, pickTarget, type UpstreamTarget } from '../services/upstreamPoolService.ts';
+import { acquireCircuit } from '../services/circuitBreakerService.ts';
+import {
+  backoffDelay,
+  hasRetryBudget,
+  recordRetry,
+  recordRetryableRequest,
+} from '../services/retryService.ts';
+import { getPlanName, getPlanStreamLimits, logRequest } from '../services/rateLimitService.ts';
+import { acquireStreamLease } from '../services/streamProxyService.ts';
+import logger from '../utils/logger.ts';
+import {
+  createMessageRateLimiter,
+  meterEventStream,
+  type MessageRateLimiter,
+} from '../utils/streamMeter.ts';
+import { BadGatewayError, GatewayTimeoutError } from '../utils/errors.ts';
+
+/**
+ * Attach the matching route as `req.proxyRoute`, or leave the router when none matches.
+ * Pass a function (e.g. `getProxyRoutes`) to pick up reloaded routes.
+ */
+export function proxyRouteMatcher(routes: ProxyRoute[] | (() => ProxyRoute[])) {
+  return (req: express.Request, _res: express.Response, next: express.NextFunction) => {
+    const route = matchProxyRoute(
+      typeof routes === 'function' ? routes() : routes,
+      req.method,
+      req.path
+    );
+    if (!route) {
+      return next('router');
+    }
+    (req as any).proxyRoute = route;
+    next();
+  };
+}
+
+/**
+ * Record the proxied request in the request log with its final status, whether the
+ * upstream or the response cache answered it
+ */
+export function proxyRequestLogger(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+): void {
+  const startTime = Date.now();
+  res.once('finish', () => {
+    logRequest(
+      (req as any).apiKeyId,
+      req.path,
+      res.statusCode,
+      Date.now() - startTime,
+      req.ip
+    ).catch((err: any) => {
+      logger.warn('Failed to log proxied request', {
+        requestId: (req as any).requestId,
+        error: err && (err.message || err),
+      });
+    });
+  });
+  next();
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function logAttempt(
+  req: express.Request,
+  route: ProxyRoute,
+  attempt: number,
+  target: UpstreamTarget | undefined,
+  outcome: { status: number } | { error: string },
+  startTime: number,
+  retrying: boolean
+): void {
+  logger.info('Upstream attempt', {
+    requestId: (req as any).requestId,
+    route: route.name,
+    upstream: route.upstream,
+    target: target?.url.origin,
+    attempt,
+    ...outcome,
+    durationMs: Date.now() - startTime,
+    retrying,
+  });
+}
+
+/**
+ * Forward the request to a target of `req.proxyRoute`'s upstream pool, retrying per the
+ * route's retry policy and budget. Each attempt reports to passive health tracking and is
+ * logged under the request's requestId; the final outcome goes to the upstream's circuit
+ * breaker. Retries happen after the limiters charged the request, so the caller pays for
+ * it once.
+ */
+export const proxyHandler = asyncHandler(
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    const route: ProxyRoute = (req as any).proxyRoute;
+    const apiKeyId = (req as any).apiKeyId;
+
+    // Retrying needs the body in memory; streamed bodies get a single attempt
+    const policy = route.retry?.methods.includes(req.method) ? route.retry : undefined;
+    const body = policy ? await readReplayableBody(req) : null;
+    const retries = policy && body ? policy.attempts : 0;
+    if (retries) recordRetryableRequest(route.name);
+
+    const context = transformContext(req, route, await getPlanName(apiKeyId));
+
+    // Server-Sent Events hold a stream lease while open and their events are metered
+    const eventStream = /text\/event-stream/i.test(req.get('accept') || '');
+    let eventLimiter: MessageRateLimiter | null = null;
+    if (eventStream) {
+      const limits = await getPlanStreamLimits(apiKeyId);
+      res.once('close', await acquireStreamLease(apiKeyId, limits.maxStreams));
+      if (limits.messagesPerSecond > 0) {
+        eventLimiter = createMessageRateLimiter(limits.messagesPerSecond);
+      }
+    }
+    const responseBody = eventLimiter
+      ? (upstreamRes: http.IncomingMessage) =>
+          /text\/event-stream/i.test(upstreamRes.headers['content-type'] || '') &&
+          !upstreamRes.headers['content-encoding']
+            ? upstreamRes.pipe(meterEventStream(eventLimiter))
+            : upstreamRes
+      : undefined;
+
+    let clientClosed = false;
+    res.once('close', () => {
+      clientClosed = !res.writableFinished;
+    });
+
+    const breaker = getPool(route.upstream)?.circuitBreaker;
+    const circuit = breaker ? await acquireCircuit(route.upstream, breaker) : null;
+
+    for (let attempt = 1; ; attempt++) {
+      const mayRetry = attempt <= retries && hasRetryBudget(route.name, policy!);
+      const attemptStart = Date.now();
+      let target: UpstreamTarget | undefined;
+
+      try {
+        target = pickTarget(route.upstream);
+        const status = await forwardRequest(req, res, route, target.url, {
+          body: body ?? undefined,
+          context,
+          responseBody,
+          retryStatuses: mayRetry ? policy!.statuses : undefined,
+        });
+        target.release(status >= 500 ? 'failure' : 'success');
+
+        const retrying = mayRetry && policy!.statuses.includes(status);
+        logAttempt(req, route, attempt, target, { status }, attemptStart, retrying);
+        if (!retrying) {
+          // A client that went away (499) says nothing about the upstream, nor does how
+          // long an event stream stayed open
+          if (status === 499) {
+            await circuit?.release();
+          } else {
+            await circuit?.record({
+              failed: status >= 500,
+              durationMs: eventStream ? 0 : Date.now() - attemptStart,
+            });
+          }
+          return;
+        }
+      } catch (error: any) {
+        target?.release('failure');
+
+        // Only failures to reach the upstream are retried, never a response in progress
+        const retrying =
+          mayRetry &&
+          !!target &&
+          !res.headersSent &&
+          (error instanceof BadGatewayError || error instanceof GatewayTimeoutError);
+        logAttempt(req, route, attempt, target, { error: error.code }, attemptStart, retrying);
+        if (!retrying) {
+          await circuit?.record({ failed: true, durationMs: Date.now() - attemptStart });
+          throw error;
+        }
+      }
+
+      recordRetry(route.name);
+      await sleep(backoffDelay(policy!, attempt));
+      if (clientClosed) {
+        await circuit?.release();
+        return;
+      }
+    }
+  }
+);
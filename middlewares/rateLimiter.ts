@@ -1,16 +1,53 @@
 import express from 'express';
-import { RateLimitError } from '../utils/errors.ts';
-import { checkRateLimits, recordRequest } from '../services/rateLimitService.ts';
+import { ConcurrencyLimitError, QuotaExceededError, RateLimitError } from '../utils/errors.ts';
+import {
+  consumeRateLimits,
+  getPlanConcurrencyLimit,
+  getPlanQuota,
+} from '../services/rateLimitService.ts';
+import { consumeQuota } from '../services/quotaService.ts';
+import { acquireLease } from '../services/concurrencyService.ts';
 import { asyncMiddleware } from './errorHandler.ts';
-import redis from '../utils/redis.ts';
+import {
+  evaluateLimit,
+  type LimitDecision,
+  type RateLimitAlgorithm,
+} from '../services/rateLimitAlgorithms.ts';
+import { getLimiterPolicy, type LimiterPolicy } from '../services/policyService.ts';
+import { setRateLimitHeaders } from '../utils/rateLimitHeaders.ts';
+import { getLimiterMode, rejectOrShadow, type LimiterMode } from '../services/limiterModeService.ts';
+import {
+  acquireLeaseInMemory,
+  evaluateLimitInMemory,
+  getDefaultFailureMode,
+  withRedisFailover,
+  type FailureMode,
+} from '../services/rateLimitFailover.ts';
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
+  name?: string; // Namespaces the limiter's Redis keys (policy limiters use their policy name)
   windowMs: number; 
   maxRequests: number; 
   message?: string;
   weight?: number; 
-  identifierType?: 'ip' | 'apiKey' | 'custom';
+  identifierType?: 'ip' | 'apiKey' | 'user' | 'header' | 'custom';
+  identifierHeader?: string; // header name for identifierType 'header'
   identifierFn?: (req: express.Request) => string;
+  algorithm?: RateLimitAlgorithm; // defaults to 'sliding-window'
+  refillRate?: number; // token-bucket only: tokens per second
+  mode?: LimiterMode; // 'shadow' observes without rejecting; switchable at runtime by name
+  failureMode?: FailureMode; // behavior while Redis is unavailable (RATE_LIMIT_FAILURE_MODE default)
+}
+
+export interface ConcurrencyLimitConfig {
+  name: string; // Namespaces the lease keys and names the limiter for shadow mode
+  maxConcurrent: number; // in-flight requests allowed per identifier
+  message?: string;
+  identifierType?: RateLimitConfig['identifierType'];
+  identifierHeader?: string;
+  identifierFn?: (req: express.Request) => string;
+  mode?: LimiterMode;
+  failureMode?: FailureMode;
 }
 
 /**
@@ -31,90 +68,244 @@ function getClientIp(req: express.Request): string {
 }
 
 /**
- * Redis-backed global rate limiter (cluster-safe)
- * Supports IP-based, API-key-based, or custom identifier-based limiting with optional weights
- * Uses keys of the form: `rl:{identifier}:{bucketStart}`
+ * Resolve the identifier a limiter counts against
  */
-export function createRateLimiter(config: RateLimitConfig) {
-  const weight = config.weight || 1;
+function resolveIdentifier(
+  req: express.Request,
+  config: Pick<RateLimitConfig, 'identifierType' | 'identifierHeader' | 'identifierFn'>
+): string {
   const identifierType = config.identifierType || 'ip';
 
-  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    try {
-     let identifier: string;
-
-      if (identifierType === 'apiKey') {
-        identifier = (req as any).apiKeyId || 'unknown';
-        if(identifier === 'unknown') {
-          throw new RateLimitError('API key missing for rate limiting');
-        }  
-      } else if (identifierType === 'custom' && config.identifierFn) {
-        identifier = config.identifierFn(req);
-      } else {
-        // default to IP
-        identifier = getClientIp(req);
-      }
+  if (identifierType === 'apiKey' || identifierType === 'user') {
+    const identifier = identifierType === 'apiKey' ? (req as any).apiKeyId : (req as any).userId;
+    if (!identifier) {
+      throw new RateLimitError(`${identifierType === 'apiKey' ? 'API key' : 'User'} missing for rate limiting`);
+    }
+    return identifier;
+  }
+  if (identifierType === 'header' && config.identifierHeader) {
+    return req.get(config.identifierHeader) || getClientIp(req);
+  }
+  if (identifierType === 'custom' && config.identifierFn) {
+    return config.identifierFn(req);
+  }
+  // default to IP
+  return getClientIp(req);
+}
 
-      const now = Date.now();
-      const windowMs = config.windowMs;
+/**
+ * Decision for one limiter and identifier, with the limiter's Redis failure policy applied.
+ * This is the engine behind every configured limiter and the decision API.
+ * With `consume = false` the decision is computed without recording anything.
+ * Returns null when Redis is unavailable and the limiter fails open.
+ */
+export async function decideRateLimit(
+  config: RateLimitConfig,
+  identifier: string,
+  weight: number,
+  consume: boolean = true
+): Promise<LimitDecision | null> {
+  const key = config.name ? `${config.name}:${identifier}` : identifier;
+  const params = {
+    windowMs: config.windowMs,
+    maxRequests: config.maxRequests,
+    weight,
+    refillRate: config.refillRate,
+  };
 
-      // Sliding window using two adjacent buckets with time-weighting.
-      // current bucket covers [bucketStart, bucketStart + windowMs)
-      const bucketStart = Math.floor(now / windowMs) * windowMs;
-      const prevBucketStart = bucketStart - windowMs;
+  return withRedisFailover(
+    config.failureMode || getDefaultFailureMode(),
+    () => evaluateLimit(config.algorithm || 'sliding-window', key, params, consume),
+    () => evaluateLimitInMemory(key, params, consume)
+  );
+}
 
-      const keyCurr = `rl:${identifier}:${bucketStart}`;
-      const keyPrev = `rl:${identifier}:${prevBucketStart}`;
+/**
+ * Evaluate one limiter for a request: sets headers and throws RateLimitError when exceeded
+ */
+async function applyRateLimit(
+  req: express.Request,
+  res: express.Response,
+  config: RateLimitConfig
+): Promise<void> {
+  const weight = config.weight || 1;
+  const identifier = resolveIdentifier(req, config);
 
-      const elapsedInCurr = now - bucketStart; // [0..windowMs)
-      const fractionCurr = elapsedInCurr / windowMs; // 0..1
-      const fractionPrev = 1 - fractionCurr;
+  const decision = await decideRateLimit(config, identifier, weight);
+  if (!decision) {
+    // Fail-open while Redis is unavailable
+    return;
+  }
 
-      // Weighted estimate of how many requests have been made in the last window.
-      // Note: we evaluate before writing to avoid fixed-window behavior.
-      const pipeline = redis.pipeline();
-      pipeline.get(keyCurr);
-      pipeline.get(keyPrev);
-      const results = await pipeline.exec();
+  setRateLimitHeaders(
+    res,
+    [
+      {
+        name: config.name || 'default',
+        limit: decision.limit,
+        remaining: decision.remaining,
+        resetTime: decision.resetTime,
+        windowMs: config.windowMs,
+      },
+    ],
+    { weight }
+  );
+
+  if (!decision.allowed) {
+    const mode = getLimiterMode(config.name, config.mode);
+    if (mode === 'enforce') {
+      res.set('Retry-After', decision.retryAfter.toString());
+    }
+    rejectOrShadow(
+      req,
+      res,
+      config.name,
+      mode,
+      new RateLimitError(
+        config.message || `Too many requests. Please try again in ${decision.retryAfter} seconds`
+      )
+    );
+  }
+}
+
+/**
+ * Take a concurrency lease for the request, released when the response finishes or the
+ * connection closes. Throws ConcurrencyLimitError when the cap is reached.
+ */
+async function applyConcurrencyLimit(
+  req: express.Request,
+  res: express.Response,
+  name: string,
+  key: string,
+  maxConcurrent: number,
+  options: Pick<ConcurrencyLimitConfig, 'message' | 'mode' | 'failureMode'> = {}
+): Promise<void> {
+  const lease = await withRedisFailover(
+    options.failureMode || getDefaultFailureMode(),
+    () => acquireLease(key, maxConcurrent),
+    () => acquireLeaseInMemory(key, maxConcurrent)
+  );
+  if (!lease) {
+    // Fail-open while Redis is unavailable
+    return;
+  }
 
-      // ioredis returns: Array<[Error|null, result]> | null
-      const countCurrRaw = (results && results[0] && results[0][0] == null ? results[0][1] : null) as unknown;
-      const countPrevRaw = (results && results[1] && results[1][0] == null ? results[1][1] : null) as unknown;
+  res.set('X-Concurrency-Limit', lease.limit.toString());
+  res.set('X-Concurrency-Remaining', Math.max(0, lease.limit - lease.active).toString());
 
-      const countCurr = countCurrRaw != null ? (parseInt(countCurrRaw as any, 10) || 0) : 0;
-      const countPrev = countPrevRaw != null ? (parseInt(countPrevRaw as any, 10) || 0) : 0;
+  if (lease.allowed) {
+    const release = () => void lease.release();
+    res.once('finish', release);
+    res.once('close', release);
+    return;
+  }
 
-      const estimated = countCurr + countPrev * fractionPrev;
-      const remaining = Math.max(0, Math.ceil(config.maxRequests - (estimated + weight)));
-      const reset = bucketStart + windowMs;
+  // In shadow mode the request proceeds without holding a lease
+  rejectOrShadow(
+    req,
+    res,
+    name,
+    getLimiterMode(name, options.mode),
+    new ConcurrencyLimitError(
+      options.message || `Too many concurrent requests. At most ${lease.limit} may be in flight`,
+      { limit: lease.limit, active: lease.active }
+    )
+  );
+}
 
-      res.set('X-RateLimit-Limit', config.maxRequests.toString());
-      res.set('X-RateLimit-Remaining', remaining.toString());
-      res.set('X-RateLimit-Reset', reset.toString());
-      res.set('X-RateLimit-Weight', weight.toString());
+/**
+ * Current state of a limiter for a request without consuming from it, with the limiter's
+ * Redis failure policy applied like for decisions.
+ * Returns null when the request has no identifier for this limiter (e.g. no user) or when
+ * Redis is unavailable and the limiter fails open.
+ */
+export async function inspectRateLimit(
+  req: express.Request,
+  config: RateLimitConfig
+): Promise<LimitDecision | null> {
+  let identifier: string;
+  try {
+    identifier = resolveIdentifier(req, config);
+  } catch {
+    return null;
+  }
 
-      const limitAfterThisRequest = estimated + weight;
-      if (limitAfterThisRequest > config.maxRequests) {
-        const retryAfter = Math.ceil((reset - now) / 1000);
-        res.set('Retry-After', retryAfter.toString());
-        throw new RateLimitError(
-          config.message || `Too many requests. Please try again in ${retryAfter} seconds`
-        );
-      }
+  return decideRateLimit(config, identifier, 0, false);
+}
 
-      // Record request in current bucket.
-      const pipeline2 = redis.pipeline();
-      pipeline2.incrby(keyCurr, weight);
-      const ttlSecondsCurr = Math.ceil((windowMs - (now - bucketStart)) / 1000);
-      pipeline2.expire(keyCurr, ttlSecondsCurr, 'GT');
-      // Ensure prev bucket doesn't linger forever if we're late into the window.
-      const ttlSecondsPrev = Math.ceil((windowMs - (now - prevBucketStart)) / 1000);
-      if (ttlSecondsPrev > 0) {
-        pipeline2.expire(keyPrev, ttlSecondsPrev, 'GT');
-      }
-      // Execute and ignore results.
-      await pipeline2.exec();
+/**
+ * Redis-backed global rate limiter (cluster-safe)
+ * Supports IP-based, API-key-based, or custom identifier-based limiting with optional weights
+ * The limiting algorithm is chosen per limiter (see services/rateLimitAlgorithms.ts)
+ */
+export function createRateLimiter(config: RateLimitConfig) {
+  // The policy file validates its limiters; limiters built in code are checked here
+  if (config.refillRate !== undefined && !(config.refillRate > 0)) {
+    throw new Error(`Rate limiter ${config.name || 'default'}: refillRate must be positive`);
+  }
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      await applyRateLimit(req, res, config);
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
 
+/**
+ * Concurrency limiter: caps in-flight requests per identifier across replicas.
+ * Use it alongside a rate limiter for long-running endpoints.
+ */
+export function createConcurrencyLimiter(config: ConcurrencyLimitConfig) {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const identifier = resolveIdentifier(req, config);
+      await applyConcurrencyLimit(
+        req,
+        res,
+        config.name,
+        `${config.name}:${identifier}`,
+        config.maxConcurrent,
+        config
+      );
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
+
+/**
+ * Convert a limiter declared in the policy file into a RateLimitConfig
+ */
+export function limiterConfigFromPolicy(name: string, policy: LimiterPolicy): RateLimitConfig {
+  return {
+    name,
+    algorithm: policy.algorithm,
+    windowMs: policy.windowMs,
+    maxRequests: policy.maxRequests,
+    weight: policy.weight,
+    refillRate: policy.refillRate,
+    identifierType: policy.identifier,
+    identifierHeader: policy.header,
+    message: policy.message,
+    failureMode: policy.failureMode,
+  };
+}
+
+/**
+ * Rate limiter driven by the named limiter in the policy file (config/rate-limits.yaml).
+ * The policy is resolved per request, so reloads apply immediately; counters are keyed
+ * by the limiter name and survive reloads. A limiter absent from the policy is disabled.
+ */
+export function createPolicyRateLimiter(name: string) {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const policy = getLimiterPolicy(name);
+      if (policy) {
+        await applyRateLimit(req, res, limiterConfigFromPolicy(name, policy));
+      }
       return next();
     } catch (error) {
       return next(error);
@@ -124,7 +315,7 @@ export function createRateLimiter(config: RateLimitConfig) {
 
 /**
  * API Key rate limiting middleware
- * Uses per-API-key limits from rate plan
+ * Uses the limits from the key's rate plan, applied per key or per user (plan limitScope)
  */
 export const apiKeyRateLimitMiddleware = asyncMiddleware(
   async (req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> => {
@@ -134,23 +325,120 @@ export const apiKeyRateLimitMiddleware = asyncMiddleware(
       return next();
     }
 
-    // Check rate limits
-    const status = await checkRateLimits(apiKeyId);
+    // Check and record the request atomically
+    const status = await consumeRateLimits(apiKeyId);
 
-    // Set rate limit headers
-    res.set('X-RateLimit-Limit', status.limit.toString());
-    res.set('X-RateLimit-Remaining', status.remaining.toString());
-    res.set('X-RateLimit-Reset', status.resetTime.getTime().toString());
+    // Report every plan window that was checked
+    setRateLimitHeaders(
+      res,
+      (status.windows || []).map((window) => ({
+        name: window.scope === 'user' ? `user:${window.constraint}` : `${window.constraint}`,
+        limit: window.limit,
+        remaining: window.remaining,
+        resetTime: window.resetTime.getTime(),
+        windowMs: window.windowMs || 60_000,
+      }))
+    );
+    if (status.scope) {
+      res.set('X-RateLimit-Scope', status.scope);
+    }
 
     if (!status.isAllowed) {
-      res.set('Retry-After', (status.retryAfter || 60).toString());
-      throw new RateLimitError(
-        `Rate limit exceeded. Try again in ${status.retryAfter} seconds`
+      const retryAfter = status.retryAfter || 60;
+      const mode = getLimiterMode('plan');
+      if (mode === 'enforce') {
+        res.set('Retry-After', retryAfter.toString());
+      }
+      if (status.constraint) {
+        res.set('X-RateLimit-Constraint', status.constraint);
+      }
+      rejectOrShadow(
+        req,
+        res,
+        'plan',
+        mode,
+        new RateLimitError(
+          status.constraint === 'burst'
+            ? `Burst limit exceeded. Try again in ${retryAfter} seconds`
+            : `Rate limit exceeded. Try again in ${retryAfter} seconds`,
+          { constraint: status.constraint, scope: status.scope, limit: status.limit, retryAfter }
+        )
       );
     }
 
-    // Record the request
-    await recordRequest(apiKeyId);
+    next();
+  }
+);
+
+/**
+ * API Key concurrency middleware
+ * Caps in-flight requests per API key at its plan's maxConcurrent (0 = unlimited)
+ */
+export const apiKeyConcurrencyMiddleware = asyncMiddleware(
+  async (req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> => {
+    const apiKeyId = (req as any).apiKeyId;
+
+    if (!apiKeyId) {
+      return next();
+    }
+
+    const maxConcurrent = await getPlanConcurrencyLimit(apiKeyId);
+    if (maxConcurrent > 0) {
+      await applyConcurrencyLimit(req, res, 'concurrency', `plan:${apiKeyId}`, maxConcurrent);
+    }
+
+    next();
+  }
+);
+
+/**
+ * API Key monthly quota middleware
+ * Records the request against the plan's monthly quota. Past the soft limit a warning header
+ * is added; past the hard cap the request is rejected, or counted as overage when the plan
+ * allows it.
+ */
+export const apiKeyQuotaMiddleware = asyncMiddleware(
+  async (req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> => {
+    const apiKeyId = (req as any).apiKeyId;
+
+    if (!apiKeyId) {
+      return next();
+    }
+
+    const status = await consumeQuota(apiKeyId, await getPlanQuota(apiKeyId));
+    if (!status) {
+      return next();
+    }
+
+    res.set('X-Quota-Limit', status.quota.toString());
+    res.set('X-Quota-Remaining', status.remaining.toString());
+    res.set('X-Quota-Reset', status.cycleEnd.getTime().toString());
+    if (status.softLimitReached) {
+      res.set('X-Quota-Warning', `Soft limit of ${status.softLimit} requests reached for this cycle`);
+    }
+    if (status.overage > 0) {
+      res.set('X-Quota-Overage', status.overage.toString());
+    }
+
+    if (!status.isAllowed) {
+      const retryAfter = Math.max(1, Math.ceil((status.cycleEnd.getTime() - Date.now()) / 1000));
+      const mode = getLimiterMode('quota');
+      if (mode === 'enforce') {
+        res.set('Retry-After', retryAfter.toString());
+      }
+      rejectOrShadow(
+        req,
+        res,
+        'quota',
+        mode,
+        new QuotaExceededError('Monthly quota exceeded', {
+          quota: status.quota,
+          used: status.used,
+          cycleEnd: status.cycleEnd,
+          retryAfter,
+        })
+      );
+    }
 
     next();
   }
@@ -158,36 +446,17 @@ export const apiKeyRateLimitMiddleware = asyncMiddleware(
 
 /**
  * Pre-configured rate limiters
+ * Limits are declared in config/rate-limits.yaml
  */
 
-// Auth limiter: IP-based, 5 requests per 15 minutes
-export const authRateLimiter = createRateLimiter({
-  windowMs: 15 * 60 * 1000,
-  maxRequests: 5,
-  identifierType: 'ip',
-  message: 'Too many login/register attempts. Please try again later.',
-});
-
-// Global API limiter: IP-based, 100 requests per minute
-export const apiRateLimiter = createRateLimiter({
-  windowMs: 60 * 1000,
-  maxRequests: 100,
-  identifierType: 'ip',
-});
-
-// API Key limiter: API-key-based, 1000 requests per minute with weight support
-export const apiKeyGlobalRateLimiter = createRateLimiter({
-  windowMs: 60 * 1000,
-  maxRequests: 1000,
-  identifierType: 'apiKey',
-  weight: 1,
-});
-
-// Heavy request limiter: higher cost operations (weight=5), lower limit
-export const heavyOperationRateLimiter = createRateLimiter({
-  windowMs: 60 * 1000,
-  maxRequests: 50, // 50 weighted units per minute
-  weight: 5, // each request costs 5 units
-  identifierType: 'ip',
-  message: 'Heavy operation rate limit exceeded. Try again later.',
-});
+// Auth limiter: login/register attempts per IP
+export const authRateLimiter = createPolicyRateLimiter('auth');
+
+// Global API limiter: requests per IP
+export const apiRateLimiter = createPolicyRateLimiter('api');
+
+// API Key limiter: weighted requests per API key
+export const apiKeyGlobalRateLimiter = createPolicyRateLimiter('apiKeyGlobal');
+
+// Heavy request limiter: higher cost operations, lower limit
+export const heavyOperationRateLimiter = createPolicyRateLimiter('heavyOperation');
@@ -4,110 +4,189 @@
  */
 
 import { asyncMiddleware } from './errorHandler.ts';
-import { RateLimitError } from '../utils/errors.ts';
+import { RateLimitError, ServiceUnavailableError } from '../utils/errors.ts';
+import { evaluateWindows, type LimitDecision } from '../services/rateLimitAlgorithms.ts';
+import { getLimiterMode, rejectOrShadow } from '../services/limiterModeService.ts';
+import {
+  evaluateWindowsInMemory,
+  getDefaultFailureMode,
+  withRedisFailover,
+  type FailureMode,
+} from '../services/rateLimitFailover.ts';
+import { setRateLimitHeaders } from '../utils/rateLimitHeaders.ts';
 import express from 'express';
 
 export interface RouteRateLimit {
   pattern: RegExp; // Route pattern to match
+  name?: string; // Budget name used in Redis keys (defaults to the pattern source)
   requestsPerMinute?: number;
   requestsPerHour?: number;
   requestsPerDay?: number;
   burstLimit?: number;
+  failureMode?: FailureMode; // behavior while Redis is unavailable (RATE_LIMIT_FAILURE_MODE default)
+}
+
+type RouteWindow = 'minute' | 'hour' | 'day';
+
+const ROUTE_WINDOWS: Array<{
+  window: RouteWindow;
+  field: 'requestsPerMinute' | 'requestsPerHour' | 'requestsPerDay';
+  windowMs: number;
+}> = [
+  { window: 'minute', field: 'requestsPerMinute', windowMs: 60_000 },
+  { window: 'hour', field: 'requestsPerHour', windowMs: 3_600_000 },
+  { window: 'day', field: 'requestsPerDay', windowMs: 86_400_000 },
+];
+
+/**
+ * Full request path, including the mount point of the router the limiter runs in.
+ * Subrequest endpoints (nginx auth_request) set `originalPath` to the path being authorized.
+ */
+export function getRoutePath(req: express.Request): string {
+  return (req as any).originalPath || `${req.baseUrl}${req.path}`;
+}
+
+function getRouteKey(limit: RouteRateLimit): string {
+  return limit.name || limit.pattern.source;
+}
+
+type ReportedWindow = { window: RouteWindow | 'burst'; windowMs: number; decision: LimitDecision };
+
+/**
+ * Evaluate a route's windows and burst cap for an API key in one step, under the route's
+ * failure policy: consuming for requests, only peeking for inspection. Null when the route
+ * fails open while Redis is unavailable.
+ */
+async function evaluateRoute(
+  apiKeyId: string,
+  limit: RouteRateLimit,
+  consume: boolean
+): Promise<ReportedWindow[] | null> {
+  const routeKey = getRouteKey(limit);
+  const windows = ROUTE_WINDOWS.filter(({ field }) => (limit[field] ?? 0) > 0);
+
+  // The burst cap is checked with the windows, so a rejection is charged to none of them
+  const specs = windows.map(({ window, field, windowMs }) => ({
+    key: `rlr:${apiKeyId}:${routeKey}:${window}`,
+    windowMs,
+    limit: limit[field] as number,
+  }));
+  const burst = limit.burstLimit
+    ? {
+        identifier: `route:${apiKeyId}:${routeKey}`,
+        windowMs: 1000,
+        maxRequests: limit.burstLimit,
+      }
+    : undefined;
+  const decision = await withRedisFailover(
+    limit.failureMode || getDefaultFailureMode(),
+    () => evaluateWindows(specs, 1, consume, burst),
+    () => evaluateWindowsInMemory(specs, 1, consume, burst)
+  );
+  if (!decision) return null;
+
+  const reported: ReportedWindow[] = windows.map(({ window, windowMs }, i) => ({
+    window,
+    windowMs,
+    decision: decision.windows[i],
+  }));
+  if (decision.bucket) {
+    reported.unshift({ window: 'burst', windowMs: 1000, decision: decision.bucket });
+  }
+  return reported;
 }
 
 /**
- * In-memory cache for route-specific limits.
- * Sliding window approximation using two adjacent buckets.
+ * Report a route's windows as `route:{name}:{window}` policies
  */
-const routeLimitCache = new Map<
-  string,
-  { currCount: number; prevCount: number; currBucketStart: number; prevBucketStart: number }
->();
+function setRouteHeaders(res: express.Response, routeKey: string, windows: ReportedWindow[]): void {
+  setRateLimitHeaders(
+    res,
+    windows.map(({ window, windowMs, decision }) => ({
+      name: `route:${routeKey}:${window}`,
+      limit: decision.limit,
+      remaining: decision.remaining,
+      resetTime: decision.resetTime,
+      windowMs,
+    }))
+  );
+}
 
-function getBucketStart(now: number, windowMs: number): number {
-  return Math.floor(now / windowMs) * windowMs;
+/**
+ * Reject a request for a route limit, or only record it when the route is in shadow mode
+ */
+function rejectRoute(
+  req: express.Request,
+  res: express.Response,
+  routeKey: string,
+  constraint: RouteWindow | 'burst',
+  decision: LimitDecision
+): void {
+  const name = `route:${routeKey}`;
+  const mode = getLimiterMode(name);
+
+  if (mode === 'enforce') {
+    res.set('Retry-After', decision.retryAfter.toString());
+  }
+  res.set('X-RateLimit-Constraint', constraint);
+  rejectOrShadow(
+    req,
+    res,
+    name,
+    mode,
+    new RateLimitError(
+      `Rate limit exceeded for this endpoint. Try again in ${decision.retryAfter} seconds`,
+      { constraint, limit: decision.limit, retryAfter: decision.retryAfter }
+    )
+  );
 }
 
 /**
  * Create a route-specific rate limiter
- * This overrides the default rate plan limits for matched routes
+ * This overrides the default rate plan limits for matched routes.
+ * Pass a function (e.g. `getRouteLimits` from the policy service) to pick up reloaded limits.
+ * Counters live in Redis so limits hold across replicas, and are keyed by the matched
+ * route (not the raw path) so every path matching one pattern shares a single budget.
+ * Keys: `rlr:{apiKeyId}:{route}:{window}:{bucketStart}` and `rl:tb:route:{apiKeyId}:{route}`
  */
-export function createRouteRateLimiter(routeLimits: RouteRateLimit[]) {
+export function createRouteRateLimiter(routeLimits: RouteRateLimit[] | (() => RouteRateLimit[])) {
   return asyncMiddleware(
-    async (req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> => {
+    async (
+      req: express.Request,
+      res: express.Response,
+      next: express.NextFunction
+    ): Promise<void> => {
       const apiKeyId = (req as any).apiKeyId;
       if (!apiKeyId) {
         return next();
       }
 
-      const routePath = req.path;
-
       // Find matching route configuration
-      const matchedLimit = routeLimits.find((limit) => limit.pattern.test(routePath));
+      const limits = typeof routeLimits === 'function' ? routeLimits() : routeLimits;
+      const matchedLimit = getRouteLimit(getRoutePath(req), limits);
 
       if (!matchedLimit) {
         // Use default rate plan limits
         return next();
       }
 
-      const now = Date.now();
-
-      // Sliding window only implemented for requestsPerMinute (current router uses minute)
-      if (matchedLimit.requestsPerMinute) {
-        const windowMs = 60 * 1000;
-        const bucketStart = getBucketStart(now, windowMs);
-        const prevBucketStart = bucketStart - windowMs;
-
-        const cacheKeyCurr = `${apiKeyId}:${routePath}:minute:${bucketStart}`;
-        const cacheKeyPrev = `${apiKeyId}:${routePath}:minute:${prevBucketStart}`;
-
-        const currCount = routeLimitCache.get(cacheKeyCurr)?.currCount ?? 0;
-        const prevCount = routeLimitCache.get(cacheKeyPrev)?.prevCount ?? 0;
-
-        const fractionPrev = (bucketStart + windowMs - now) / windowMs; // 1..0
-        const estimatedUsed = currCount + prevCount * Math.max(0, Math.min(1, fractionPrev));
-        const nextCount = estimatedUsed + 1;
-
-        const limit = matchedLimit.requestsPerMinute;
-        if (nextCount > limit) {
-          const resetTime = bucketStart + windowMs;
-          const retryAfter = Math.ceil((resetTime - now) / 1000);
-          res.set('Retry-After', retryAfter.toString());
-          throw new RateLimitError(
-            `Rate limit exceeded for this endpoint. Try again in ${retryAfter} seconds`
-          );
-        }
-
-        // Record into current bucket (simple in-memory)
-        routeLimitCache.set(cacheKeyCurr, {
-          currCount: currCount + 1,
-          prevCount: prevCount,
-          currBucketStart: bucketStart,
-          prevBucketStart,
-        });
+      const routeKey = getRouteKey(matchedLimit);
+      const hasWindows = ROUTE_WINDOWS.some(({ field }) => (matchedLimit[field] ?? 0) > 0);
+      if (!hasWindows && !matchedLimit.burstLimit) {
+        return next();
       }
 
-      // Set headers based on current estimate for the minute window
-      if (matchedLimit.requestsPerMinute) {
-        const windowMs = 60 * 1000;
-        const bucketStart = getBucketStart(now, windowMs);
-        const prevBucketStart = bucketStart - windowMs;
-
-        const cacheKeyCurr = `${apiKeyId}:${routePath}:minute:${bucketStart}`;
-        const cacheKeyPrev = `${apiKeyId}:${routePath}:minute:${prevBucketStart}`;
-
-        const currCount = routeLimitCache.get(cacheKeyCurr)?.currCount ?? 0;
-        const prevCount = routeLimitCache.get(cacheKeyPrev)?.prevCount ?? 0;
-
-        const fractionPrev = (bucketStart + windowMs - now) / windowMs;
-        const estimatedUsed = currCount + prevCount * Math.max(0, Math.min(1, fractionPrev));
-
-        const limit = matchedLimit.requestsPerMinute;
-        const remaining = Math.max(0, Math.ceil(limit - estimatedUsed));
+      const reported = await evaluateRoute(apiKeyId, matchedLimit, true);
+      if (!reported) {
+        // Fail-open while Redis is unavailable
+        return next();
+      }
+      setRouteHeaders(res, routeKey, reported);
 
-        res.set('X-RateLimit-Limit', limit.toString());
-        res.set('X-RateLimit-Remaining', remaining.toString());
-        res.set('X-RateLimit-Reset', (bucketStart + windowMs).toString());
+      const exceeded = reported.find((entry) => !entry.decision.allowed);
+      if (exceeded) {
+        rejectRoute(req, res, routeKey, exceeded.window, exceeded.decision);
+        return next();
       }
 
       next();
@@ -116,35 +195,25 @@ export function createRouteRateLimiter(routeLimits: RouteRateLimit[]) {
 }
 
 /**
- * Predefined route-specific limits
- * Example patterns for common endpoints
+ * Current state of every route limit for an API key, without consuming from them.
+ * While Redis is unavailable each route is inspected as its failure policy enforces it;
+ * `windows` is null for routes failing open or closed, which have no state to report.
  */
-export const defaultRouteLimits: RouteRateLimit[] = [
-  {
-    pattern: /^\/api\/v1\/ping$/,
-    requestsPerMinute: 60, // Allow 60 pings per minute
-    requestsPerHour: 1000,
-    requestsPerDay: 10000,
-  },
-  {
-    pattern: /^\/api\/v1\/data.*/, // Match /api/v1/data/* endpoints
-    requestsPerMinute: 30,
-    requestsPerHour: 500,
-    requestsPerDay: 5000,
-  },
-  {
-    pattern: /^\/api\/v1\/admin.*/, // Admin endpoints - more restrictive
-    requestsPerMinute: 10,
-    requestsPerHour: 100,
-    requestsPerDay: 1000,
-  },
-  {
-    pattern: /^\/api\/v1\/upload.*/, // Upload endpoints - very restrictive
-    requestsPerMinute: 5,
-    requestsPerHour: 50,
-    requestsPerDay: 500,
-  },
-];
+export async function inspectRouteLimits(
+  apiKeyId: string,
+  routeLimits: RouteRateLimit[]
+): Promise<Array<{ route: RouteRateLimit; windows: ReportedWindow[] | null }>> {
+  return Promise.all(
+    routeLimits.map(async (route) => {
+      try {
+        return { route, windows: await evaluateRoute(apiKeyId, route, false) };
+      } catch (err) {
+        if (!(err instanceof ServiceUnavailableError)) throw err;
+        return { route, windows: null };
+      }
+    })
+  );
+}
 
 /**
  * Validate that a request matches a route limit
@@ -159,20 +228,3 @@ export function matchesRoute(path: string, pattern: RegExp): boolean {
 export function getRouteLimit(path: string, limits: RouteRateLimit[]): RouteRateLimit | undefined {
   return limits.find((limit) => limit.pattern.test(path));
 }
-
-/**
- * Cleanup old cache entries (call periodically)
- */
-export function cleanupRouteLimitCache(): void {
-  const now = Date.now();
-  for (const [key, record] of routeLimitCache.entries()) {
-    // remove entries older than 5 minutes based on current bucket start
-    if (record.currBucketStart + 5 * 60 * 1000 < now) {
-      routeLimitCache.delete(key);
-    }
-  }
-}
-
-// Cleanup every 5 minutes
-setInterval(cleanupRouteLimitCache, 5 * 60 * 1000);
-
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RatePlan" ADD COLUMN     "maxConcurrent" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "RatePlan" ADD COLUMN     "allowOverage" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "monthlyQuota" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "monthlySoftLimit" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "QuotaUsage" (
+    "id" TEXT NOT NULL,
+    "apiKeyId" TEXT NOT NULL,
+    "cycleStart" TIMESTAMP(3) NOT NULL,
+    "requestCount" INTEGER NOT NULL DEFAULT 0,
+    "overageCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuotaUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuotaUsage_apiKeyId_cycleStart_key" ON "QuotaUsage"("apiKeyId", "cycleStart");
+
+-- AddForeignKey
+ALTER TABLE "QuotaUsage" ADD CONSTRAINT "QuotaUsage_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "ApiKey"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
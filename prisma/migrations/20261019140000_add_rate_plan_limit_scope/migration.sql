@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "LimitScope" AS ENUM ('KEY', 'USER');
+
+-- AlterTable
+ALTER TABLE "RatePlan" ADD COLUMN     "limitScope" "LimitScope" NOT NULL DEFAULT 'USER';
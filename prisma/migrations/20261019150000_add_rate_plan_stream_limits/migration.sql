@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "RatePlan" ADD COLUMN     "maxStreams" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "streamMessagesPerSecond" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,51 @@
+/**
+ * Admin Routes
+ * All endpoints require the admin token (x-admin-token)
+ */
+
+import express from 'express';
+import {
+  listCircuitBreakersController,
+  listLimitersController,
+  purgeCacheController,
+  setCircuitBreakerController,
+  setLimiterModeController,
+} from '../controllers/adminController.ts';
+import { adminAuthMiddleware } from '../middlewares/apiKeyAuth.ts';
+import { asyncMiddleware } from '../middlewares/errorHandler.ts';
+
+const router = express.Router();
+
+router.use(asyncMiddleware(adminAuthMiddleware));
+
+/**
+ * GET /admin/limiters
+ * List limiters, their modes and shadow rejection counts
+ */
+router.get('/limiters', listLimitersController);
+
+/**
+ * PUT /admin/limiters/:name/mode
+ * Switch a limiter between enforce and shadow mode at runtime
+ */
+router.put('/limiters/:name/mode', setLimiterModeController);
+
+/**
+ * GET /admin/circuit-breakers
+ * List upstream circuit breakers with their state and window counts
+ */
+router.get('/circuit-breakers', listCircuitBreakersController);
+
+/**
+ * PUT /admin/circuit-breakers/:name
+ * Force an upstream's circuit breaker open or closed
+ */
+router.put('/circuit-breakers/:name', setCircuitBreakerController);
+
+/**
+ * POST /admin/cache/purge
+ * Remove cached responses by tag and/or path prefix
+ */
+router.post('/cache/purge', purgeCacheController);
+
+export default router;
@@ -13,6 +13,7 @@ import {
 } from '../controllers/apiKeyController.ts';
 import { jwtAuthMiddleware } from '../middlewares/apiKeyAuth.ts';
 import { asyncMiddleware } from '../middlewares/errorHandler.ts';
+import { idempotencyMiddleware } from '../middlewares/idempotency.ts';
 
 const router = express.Router();
 
@@ -21,9 +22,9 @@ router.use(asyncMiddleware(jwtAuthMiddleware));
 
 /**
  * POST /api/v1/api-keys
- * Create a new API key
+ * Create a new API key (honors Idempotency-Key)
  */
-router.post('/', createApiKeyController);
+router.post('/', asyncMiddleware(idempotencyMiddleware), createApiKeyController);
 
 /**
  * GET /api/v1/api-keys
@@ -39,9 +40,13 @@ router.post('/:keyId/revoke', revokeApiKeyController);
 
 /**
  * POST /api/v1/api-keys/:keyId/regenerate
- * Regenerate an API key (revoke old, create new)
+ * Regenerate an API key (revoke old, create new; honors Idempotency-Key)
  */
-router.post('/:keyId/regenerate', regenerateApiKeyController);
+router.post(
+  '/:keyId/regenerate',
+  asyncMiddleware(idempotencyMiddleware),
+  regenerateApiKeyController
+);
 
 /**
  * DELETE /api/v1/api-keys/:keyId
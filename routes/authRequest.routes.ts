@@ -0,0 +1,35 @@
+/**
+ * nginx auth_request Routes
+ * Internal subrequest endpoint; requires the service token (x-service-token), which
+ * nginx adds with `proxy_set_header`
+ */
+
+import express from 'express';
+import {
+  authRequestController,
+  originalApiKeyAuthMiddleware,
+  originalRequestMiddleware,
+} from '../controllers/authRequestController.ts';
+import { serviceAuthMiddleware } from '../middlewares/apiKeyAuth.ts';
+import { asyncMiddleware } from '../middlewares/errorHandler.ts';
+import { apiKeyRateLimitMiddleware } from '../middlewares/rateLimiter.ts';
+import { createRouteRateLimiter } from '../middlewares/routeRateLimiter.ts';
+import { getRouteLimits } from '../services/policyService.ts';
+
+const router = express.Router();
+
+/**
+ * /api/v1/auth-request (any method: nginx keeps the original one unless `proxy_method` is set)
+ * 204 allowed, 401 missing/invalid key, 403 endpoint disabled, 429 over a plan or route limit
+ */
+router.all(
+  '/',
+  asyncMiddleware(serviceAuthMiddleware),
+  originalRequestMiddleware,
+  originalApiKeyAuthMiddleware,
+  apiKeyRateLimitMiddleware,
+  createRouteRateLimiter(getRouteLimits),
+  authRequestController
+);
+
+export default router;
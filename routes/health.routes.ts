@@ -1,5 +1,7 @@
 import express from 'express';
 import redis, { isRedisReady } from '../utils/redis.ts';
+import { getFailoverStatus } from '../services/rateLimitFailover.ts';
+import { getPoolStatus } from '../services/upstreamPoolService.ts';
 
 const router = express.Router();
 
@@ -18,6 +20,8 @@ router.get('/', async (_req, res) => {
   res.json({
     status: 'ok',
     redis: redisInfo,
+    rateLimiting: getFailoverStatus(),
+    upstreams: getPoolStatus(),
     uptimeSeconds: Math.floor(process.uptime()),
     timestamp: Date.now(),
   });
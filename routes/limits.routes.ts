@@ -0,0 +1,21 @@
+/**
+ * Limits Routes
+ * Mounted ahead of the protected API so none of its limiters or quotas apply here
+ */
+
+import express from 'express';
+import { getLimitsController } from '../controllers/limitsController.ts';
+import { apiKeyAuthMiddleware } from '../middlewares/apiKeyAuth.ts';
+import { asyncMiddleware } from '../middlewares/errorHandler.ts';
+
+const router = express.Router();
+
+router.use(asyncMiddleware(apiKeyAuthMiddleware));
+
+/**
+ * GET /api/v1/limits
+ * Every limit that applies to the calling key, without consuming any of them
+ */
+router.get('/', getLimitsController);
+
+export default router;
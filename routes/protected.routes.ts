@@ -1,17 +1,24 @@
 import express from 'express';
 import { asyncMiddleware } from '../middlewares/errorHandler.ts';
 import { apiKeyAuthMiddleware } from '../middlewares/apiKeyAuth.ts';
-import { apiKeyRateLimitMiddleware } from '../middlewares/rateLimiter.ts';
-import { createRouteRateLimiter, defaultRouteLimits } from '../middlewares/routeRateLimiter.ts';
+import {
+  apiKeyConcurrencyMiddleware,
+  apiKeyQuotaMiddleware,
+  apiKeyRateLimitMiddleware,
+} from '../middlewares/rateLimiter.ts';
+import { createRouteRateLimiter } from '../middlewares/routeRateLimiter.ts';
+import { getRouteLimits } from '../services/policyService.ts';
 import { logRequest, getUsageStats } from '../services/rateLimitService.ts';
 import { createSuccessResponse } from '../utils/response.ts';
 
 const router = express.Router();
 
-// Apply API key authentication and rate limiting to all routes
+// Apply API key authentication, rate/concurrency limiting and monthly quotas to all routes
 router.use(asyncMiddleware(apiKeyAuthMiddleware));
 router.use(apiKeyRateLimitMiddleware);
-router.use(createRouteRateLimiter(defaultRouteLimits));
+router.use(createRouteRateLimiter(getRouteLimits));
+router.use(apiKeyConcurrencyMiddleware);
+router.use(apiKeyQuotaMiddleware);
 
 router.post('/ping', asyncMiddleware(async (req: express.Request, res: express.Response): Promise<void> => {
   const apiKeyId = (req as any).apiKeyId;
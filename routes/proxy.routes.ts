@@ -0,0 +1,35 @@
+/**
+ * Gateway Proxy Routes
+ * Requests matching the route table (config/gateway.yaml) go through the same API key
+ * authentication and limits as the gateway's own API, then to the response cache (routes
+ * with `cache`) and their upstream.
+ * Everything else falls through to the other routers.
+ */
+
+import express from 'express';
+import { asyncMiddleware } from '../middlewares/errorHandler.ts';
+import { apiKeyAuthMiddleware } from '../middlewares/apiKeyAuth.ts';
+import {
+  apiKeyConcurrencyMiddleware,
+  apiKeyQuotaMiddleware,
+  apiKeyRateLimitMiddleware,
+} from '../middlewares/rateLimiter.ts';
+import { createRouteRateLimiter } from '../middlewares/routeRateLimiter.ts';
+import { cacheResponse } from '../middlewares/cache.ts';
+import { proxyHandler, proxyRequestLogger, proxyRouteMatcher } from '../middlewares/proxy.ts';
+import { getRouteLimits } from '../services/policyService.ts';
+import { getProxyRoutes } from '../services/proxyConfigService.ts';
+
+const router = express.Router();
+
+router.use(proxyRouteMatcher(getProxyRoutes));
+router.use(asyncMiddleware(apiKeyAuthMiddleware));
+router.use(apiKeyRateLimitMiddleware);
+router.use(createRouteRateLimiter(getRouteLimits));
+router.use(apiKeyConcurrencyMiddleware);
+router.use(apiKeyQuotaMiddleware);
+router.use(proxyRequestLogger);
+router.use(cacheResponse((req) => (req as any).proxyRoute.cache));
+router.use(proxyHandler);
+
+export default router;
@@ -0,0 +1,21 @@
+/**
+ * Quota Routes
+ * Mounted ahead of the protected API so none of its limiters or quotas apply here
+ */
+
+import express from 'express';
+import { getQuotaController } from '../controllers/quotaController.ts';
+import { apiKeyAuthMiddleware } from '../middlewares/apiKeyAuth.ts';
+import { asyncMiddleware } from '../middlewares/errorHandler.ts';
+
+const router = express.Router();
+
+router.use(asyncMiddleware(apiKeyAuthMiddleware));
+
+/**
+ * GET /api/v1/quota
+ * Monthly quota usage of the calling key, without charging the request to it
+ */
+router.get('/', getQuotaController);
+
+export default router;
@@ -0,0 +1,30 @@
+/**
+ * Rate Limit Decision Routes
+ * Internal service-to-service API; requires the service token (x-service-token)
+ */
+
+import express from 'express';
+import {
+  checkRateLimitBatchController,
+  checkRateLimitController,
+} from '../controllers/rateLimitController.ts';
+import { serviceAuthMiddleware } from '../middlewares/apiKeyAuth.ts';
+import { asyncMiddleware } from '../middlewares/errorHandler.ts';
+
+const router = express.Router();
+
+router.use(asyncMiddleware(serviceAuthMiddleware));
+
+/**
+ * POST /api/v1/ratelimit/check
+ * Check (or peek at) one limiter for an identifier
+ */
+router.post('/check', checkRateLimitController);
+
+/**
+ * POST /api/v1/ratelimit/check/batch
+ * Several independent checks in one round trip
+ */
+router.post('/check/batch', checkRateLimitBatchController);
+
+export default router;
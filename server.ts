@@ -3,6 +3,11 @@ import app from "./app.ts";
 import logger from './utils/logger.ts';
 import redis, { isRedisReady } from './utils/redis.ts';
 import { prisma } from './prisma.ts';
+import { startUsageFlusher, stopUsageFlusher } from './services/rateLimitService.ts';
+import { getPolicy, watchPolicy, stopWatchingPolicy } from './services/policyService.ts';
+import { getProxyConfig, watchProxyConfig, stopWatchingProxyConfig } from './services/proxyConfigService.ts';
+import { startEnvoyRateLimitServer, stopEnvoyRateLimitServer } from './services/envoyRateLimitService.ts';
+import { attachWebSocketProxy, closeWebSockets } from './services/streamProxyService.ts';
 
 // Validate required environment variables
 function validateEnvironment() {
@@ -48,29 +53,57 @@ async function waitForRedis(maxAttempts = 10) {
 }
 
 const PORT = parseInt(process.env.PORT || "5050", 10);
+// Envoy external rate limit service (gRPC); disabled when unset
+const ENVOY_RLS_PORT = process.env.ENVOY_RLS_PORT ? parseInt(process.env.ENVOY_RLS_PORT, 10) : null;
 
 // Startup sequence
 (async () => {
   try {
     validateEnvironment();
+    // Fail fast on an invalid rate limit policy or route table, then hot-reload them
+    // (SIGHUP / file change)
+    getPolicy();
+    watchPolicy();
+    getProxyConfig();
+    watchProxyConfig();
     await testDatabaseConnection();
     await waitForRedis();
+    startUsageFlusher();
     
     const server = app.listen(PORT, '0.0.0.0', () => {
       logger.info(`✓ Server is running on http://localhost:${PORT}`);
       logger.info(`✓ Node environment: ${process.env.NODE_ENV || 'development'}`);
     });
 
+    // WebSocket upgrades on proxied routes
+    attachWebSocketProxy(server);
+
     server.on('error', (err: any) => {
       logger.error('Server error:', err && (err.message || err));
       process.exit(1);
     });
 
+    if (ENVOY_RLS_PORT) {
+      await startEnvoyRateLimitServer(ENVOY_RLS_PORT);
+      logger.info(`✓ Envoy rate limit service listening on port ${ENVOY_RLS_PORT}`);
+    }
+
     // Graceful shutdown
     const shutdown = async (signal: string) => {
       logger.info(`Received ${signal}, gracefully shutting down...`);
+      // Open WebSockets would otherwise keep the server from closing
+      closeWebSockets();
       server.close(async () => {
         logger.info('HTTP server closed');
+        stopWatchingPolicy();
+        stopWatchingProxyConfig();
+        await stopEnvoyRateLimitServer();
+        try {
+          await stopUsageFlusher();
+          logger.info('Pending usage flushed');
+        } catch (err) {
+          logger.error('Error flushing usage:', err);
+        }
         try {
           await prisma.$disconnect();
           logger.info('Database connection closed');
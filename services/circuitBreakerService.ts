@@ -0,0 +1,307 @@
+/**
+ * Circuit Breaker Service
+ * One breaker per upstream pool, shared by every replica through Redis:
+ * - closed: calls pass and their outcomes are counted over a rolling window; the breaker
+ *   opens once at least `minRequests` calls were seen and the failure (5xx/timeout) or
+ *   slow-call rate reaches its threshold
+ * - open: calls fail fast until `openMs` has passed
+ * - half-open: up to `halfOpenRequests` probe calls pass; one failure reopens the breaker,
+ *   all of them succeeding closes it
+ * Keys: `cb:{upstream}` (state hash) and `cb:{upstream}:window` (per-bucket counts).
+ * While Redis is unavailable breakers let calls through; passive ejection still applies.
+ */
+
+import redis, { isRedisReady } from '../utils/redis.ts';
+import logger from '../utils/logger.ts';
+import { defineScript, runScript } from '../utils/redisScripts.ts';
+import { ServiceUnavailableError } from '../utils/errors.ts';
+
+export interface CircuitBreakerConfig {
+  windowMs: number; // rolling window the rates are computed over
+  minRequests: number; // calls in the window before the rates are considered
+  errorRate: number; // 0..1
+  slowCallMs?: number; // calls slower than this count as slow
+  slowCallRate?: number; // 0..1, requires slowCallMs
+  openMs: number;
+  halfOpenRequests: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitCall {
+  // Report the call's outcome; each admitted call must be recorded or released once
+  record: (outcome: { failed: boolean; durationMs: number }) => Promise<void>;
+  // Give up the call without an outcome (e.g. the client went away), freeing its probe slot
+  release: () => Promise<void>;
+}
+
+const UNTRACKED_CALL: CircuitCall = { record: async () => {}, release: async () => {} };
+
+/**
+ * KEYS[1] state hash; ARGV: now, halfOpenRequests, openMs
+ * Returns {allowed, state, retryAfterMs, probeDeadline (for probes)}
+ */
+const ACQUIRE_CALL = defineScript(`
+local now = tonumber(ARGV[1])
+local maxProbes = tonumber(ARGV[2])
+local openMs = tonumber(ARGV[3])
+
+local state = redis.call('HGET', KEYS[1], 'state')
+if not state or state == 'closed' then
+  return {1, 'closed', 0}
+end
+
+if state == 'open' then
+  local openUntil = tonumber(redis.call('HGET', KEYS[1], 'openUntil'))
+  if now < openUntil then
+    return {0, 'open', openUntil - now}
+  end
+  state = 'half_open'
+  redis.call('HSET', KEYS[1], 'state', state, 'probes', 0, 'successes', 0, 'probeDeadline', now + openMs)
+end
+
+-- Probes that never reported back (e.g. a crashed replica) are given up after openMs
+if now >= tonumber(redis.call('HGET', KEYS[1], 'probeDeadline')) then
+  redis.call('HSET', KEYS[1], 'probes', 0, 'successes', 0, 'probeDeadline', now + openMs)
+end
+
+local probes = tonumber(redis.call('HGET', KEYS[1], 'probes'))
+if probes >= maxProbes then
+  return {0, 'half_open', 1000}
+end
+redis.call('HINCRBY', KEYS[1], 'probes', 1)
+return {1, 'half_open', 0, redis.call('HGET', KEYS[1], 'probeDeadline')}
+`);
+
+/**
+ * KEYS[1] state hash; ARGV: probeDeadline the probe was admitted under
+ * Frees a half-open probe slot unless the breaker moved on since
+ */
+const RELEASE_PROBE = defineScript(`
+if redis.call('HGET', KEYS[1], 'state') ~= 'half_open' then
+  return 0
+end
+if redis.call('HGET', KEYS[1], 'probeDeadline') ~= ARGV[1] then
+  return 0
+end
+if tonumber(redis.call('HGET', KEYS[1], 'probes')) > 0 then
+  redis.call('HINCRBY', KEYS[1], 'probes', -1)
+end
+return 1
+`);
+
+/**
+ * KEYS[1] state hash, KEYS[2] window hash
+ * ARGV: now, windowMs, minRequests, errorRate, slowCallRate, openMs, halfOpenRequests,
+ *       failed, slow, probe
+ * Returns the state after the call
+ */
+const RECORD_CALL = defineScript(`
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local minRequests = tonumber(ARGV[3])
+local errorRate = tonumber(ARGV[4])
+local slowCallRate = tonumber(ARGV[5])
+local openMs = tonumber(ARGV[6])
+local maxProbes = tonumber(ARGV[7])
+local failed = ARGV[8] == '1'
+local slow = ARGV[9] == '1'
+local probe = ARGV[10] == '1'
+
+local function open()
+  redis.call('DEL', KEYS[2])
+  redis.call('HSET', KEYS[1], 'state', 'open', 'openUntil', now + openMs)
+  redis.call('HDEL', KEYS[1], 'probes', 'successes', 'probeDeadline')
+  return 'open'
+end
+
+local state = redis.call('HGET', KEYS[1], 'state') or 'closed'
+
+if state == 'half_open' and probe then
+  if failed or slow then
+    return open()
+  end
+  if redis.call('HINCRBY', KEYS[1], 'successes', 1) >= maxProbes then
+    redis.call('DEL', KEYS[1], KEYS[2])
+    return 'closed'
+  end
+  return 'half_open'
+end
+
+if state ~= 'closed' then
+  -- Calls admitted before the breaker opened don't count anymore
+  return state
+end
+
+-- The window is counted in 10 buckets
+local bucketMs = math.max(1, math.floor(windowMs / 10))
+local bucket = now - (now % bucketMs)
+redis.call('HINCRBY', KEYS[2], bucket .. ':n', 1)
+if failed then redis.call('HINCRBY', KEYS[2], bucket .. ':f', 1) end
+if slow then redis.call('HINCRBY', KEYS[2], bucket .. ':s', 1) end
+redis.call('PEXPIRE', KEYS[2], windowMs * 2)
+
+local counts = {n = 0, f = 0, s = 0}
+local fields = redis.call('HGETALL', KEYS[2])
+for i = 1, #fields, 2 do
+  local sep = string.find(fields[i], ':', 1, true)
+  local start = tonumber(string.sub(fields[i], 1, sep - 1))
+  if start <= now - windowMs then
+    redis.call('HDEL', KEYS[2], fields[i])
+  else
+    local kind = string.sub(fields[i], sep + 1)
+    counts[kind] = counts[kind] + tonumber(fields[i + 1])
+  end
+end
+
+if counts.n >= minRequests then
+  if counts.f / counts.n >= errorRate or (slowCallRate > 0 and counts.s / counts.n >= slowCallRate) then
+    return open()
+  end
+end
+return 'closed'
+`);
+
+function stateKey(name: string): string {
+  return `cb:${name}`;
+}
+
+function windowKey(name: string): string {
+  return `cb:${name}:window`;
+}
+
+/**
+ * Admit a call through the upstream's breaker. Throws ServiceUnavailableError (503 with
+ * Retry-After) while the breaker is open or its half-open probes are taken.
+ */
+export async function acquireCircuit(
+  name: string,
+  config: CircuitBreakerConfig
+): Promise<CircuitCall> {
+  if (!isRedisReady()) {
+    return UNTRACKED_CALL;
+  }
+
+  let result: [number, CircuitState, number, string?];
+  try {
+    result = (await runScript(
+      ACQUIRE_CALL,
+      [stateKey(name)],
+      [Date.now(), config.halfOpenRequests, config.openMs]
+    )) as [number, CircuitState, number, string?];
+  } catch (err: any) {
+    logger.warn('Circuit breaker unavailable, letting call through', {
+      upstream: name,
+      error: err && (err.message || err),
+    });
+    return UNTRACKED_CALL;
+  }
+
+  const [allowed, state, retryAfterMs, probeDeadline] = result;
+  if (allowed !== 1) {
+    throw new ServiceUnavailableError(`Upstream '${name}' is unavailable (circuit ${state})`, {
+      upstream: name,
+      circuit: state,
+      retryAfter: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+    });
+  }
+
+  const probe = state === 'half_open';
+  let settled = false;
+  return {
+    record: async ({ failed, durationMs }) => {
+      if (settled) return;
+      settled = true;
+      const slow = !!config.slowCallMs && durationMs >= config.slowCallMs;
+      try {
+        const next = (await runScript(
+          RECORD_CALL,
+          [stateKey(name), windowKey(name)],
+          [
+            Date.now(),
+            config.windowMs,
+            config.minRequests,
+            config.errorRate,
+            config.slowCallRate ?? 0,
+            config.openMs,
+            config.halfOpenRequests,
+            failed ? 1 : 0,
+            slow ? 1 : 0,
+            probe ? 1 : 0,
+          ]
+        )) as CircuitState;
+        if (next !== state) {
+          logger.warn(`Circuit breaker ${next}`, { upstream: name, previous: state });
+        }
+      } catch (err: any) {
+        logger.warn('Failed to record circuit breaker outcome', {
+          upstream: name,
+          error: err && (err.message || err),
+        });
+      }
+    },
+    release: async () => {
+      if (settled) return;
+      settled = true;
+      if (!probe) return;
+      try {
+        await runScript(RELEASE_PROBE, [stateKey(name)], [probeDeadline ?? '']);
+      } catch (err: any) {
+        // The slot frees itself once the probe deadline passes
+        logger.warn('Failed to release circuit breaker probe', {
+          upstream: name,
+          error: err && (err.message || err),
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Current state and rolling-window counts of an upstream's breaker
+ */
+export async function getCircuitState(name: string, config: CircuitBreakerConfig) {
+  const [[, state], [, window]] = (await redis
+    .pipeline()
+    .hgetall(stateKey(name))
+    .hgetall(windowKey(name))
+    .exec()) as [[unknown, Record<string, string>], [unknown, Record<string, string>]];
+
+  const now = Date.now();
+  const counts = { requests: 0, failures: 0, slowCalls: 0 };
+  for (const [field, value] of Object.entries(window || {})) {
+    const [start, kind] = field.split(':');
+    if (Number(start) <= now - config.windowMs) continue;
+    if (kind === 'n') counts.requests += Number(value);
+    if (kind === 'f') counts.failures += Number(value);
+    if (kind === 's') counts.slowCalls += Number(value);
+  }
+
+  return {
+    name,
+    state: (state?.state as CircuitState) || 'closed',
+    openUntil: state?.openUntil ? new Date(Number(state.openUntil)) : null,
+    window: counts,
+    config,
+  };
+}
+
+/**
+ * Force a breaker open (for `openMs`) or closed (clearing its window)
+ */
+export async function setCircuitState(
+  name: string,
+  config: CircuitBreakerConfig,
+  state: 'open' | 'closed'
+): Promise<void> {
+  if (state === 'closed') {
+    await redis.del(stateKey(name), windowKey(name));
+  } else {
+    await redis
+      .multi()
+      .del(stateKey(name), windowKey(name))
+      .hset(stateKey(name), 'state', 'open', 'openUntil', Date.now() + config.openMs)
+      .exec();
+  }
+  logger.info(`Circuit breaker for ${name} forced ${state}`);
+}
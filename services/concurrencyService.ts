@@ -0,0 +1,111 @@
+/**
+ * Concurrency Service
+ * Caps in-flight requests per identifier with Redis-backed leases. Each admitted request
+ * holds a lease (a member of `rlc:{key}` scored by its expiry) until the response finishes.
+ * Leases are renewed while the request is in flight, so the leases of a crashed instance
+ * stop being renewed and are reclaimed once their TTL passes.
+ */
+
+import crypto from 'crypto';
+import redis from '../utils/redis.ts';
+import logger from '../utils/logger.ts';
+import { defineScript, runScript } from '../utils/redisScripts.ts';
+
+export interface ConcurrencyLease {
+  allowed: boolean;
+  limit: number;
+  active: number; // in-flight requests including this one when allowed
+  release: () => Promise<void>;
+}
+
+const LEASE_TTL_MS = Math.max(1000, Number(process.env.CONCURRENCY_LEASE_TTL_MS) || 30_000);
+
+// Renew well before expiry so a slow renewal round doesn't drop live leases
+const RENEW_INTERVAL_MS = Math.floor(LEASE_TTL_MS / 3);
+
+/**
+ * Drop expired leases, then take one if the cap allows.
+ * KEYS[1] lease set; ARGV: now, ttlMs, limit, leaseId
+ * Returns {allowed, active}
+ */
+const ACQUIRE_LEASE = defineScript(`
+local now = tonumber(ARGV[1])
+local ttl = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+local active = redis.call('ZCARD', KEYS[1])
+if active >= limit then
+  return {0, active}
+end
+
+redis.call('ZADD', KEYS[1], now + ttl, ARGV[4])
+redis.call('PEXPIRE', KEYS[1], ttl)
+return {1, active + 1}
+`);
+
+// Leases held by this instance: leaseId -> lease set key
+const localLeases = new Map<string, string>();
+
+function leaseKey(key: string): string {
+  return `rlc:${key}`;
+}
+
+/**
+ * Try to take a lease. When the returned lease is allowed, `release` must be called once
+ * the request completes (it is idempotent).
+ */
+export async function acquireLease(key: string, limit: number): Promise<ConcurrencyLease> {
+  const setKey = leaseKey(key);
+  const leaseId = crypto.randomUUID();
+  const [allowed, active] = (await runScript(
+    ACQUIRE_LEASE,
+    [setKey],
+    [Date.now(), LEASE_TTL_MS, limit, leaseId]
+  )) as [number, number];
+
+  if (allowed !== 1) {
+    return { allowed: false, limit, active, release: async () => {} };
+  }
+
+  localLeases.set(leaseId, setKey);
+  return {
+    allowed: true,
+    limit,
+    active,
+    release: async () => {
+      if (!localLeases.delete(leaseId)) return;
+      try {
+        await redis.zrem(setKey, leaseId);
+      } catch (err: any) {
+        // The lease expires on its own once it is no longer renewed
+        logger.warn('Failed to release concurrency lease', {
+          key,
+          error: err && (err.message || err),
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Push the expiry of every lease this instance still holds
+ */
+async function renewLeases(): Promise<void> {
+  if (localLeases.size === 0) return;
+
+  const expiresAt = Date.now() + LEASE_TTL_MS;
+  const pipeline = redis.pipeline();
+  for (const [leaseId, setKey] of localLeases) {
+    // XX: never resurrect a lease that was released or already reclaimed
+    pipeline.zadd(setKey, 'XX', expiresAt, leaseId);
+    pipeline.pexpire(setKey, LEASE_TTL_MS);
+  }
+  await pipeline.exec();
+}
+
+setInterval(() => {
+  renewLeases().catch((err: any) => {
+    logger.warn('Failed to renew concurrency leases', { error: err && (err.message || err) });
+  });
+}, RENEW_INTERVAL_MS).unref();
@@ -0,0 +1,209 @@
+/**
+ * Envoy external rate limit service (envoy.service.ratelimit.v3.RateLimitService)
+ * Lets Envoy's `ratelimit` filter use the limiters from the policy file over gRPC.
+ *
+ * Descriptor mapping: the first entry names the limiter (`generic_key` action:
+ * `descriptor_value: api`), the values of the remaining entries joined with ':' form the
+ * identifier. So `[generic_key=api, remote_address=203.0.113.7]` is checked against the
+ * `api` limiter for `203.0.113.7` — the same Redis counter the HTTP middleware uses.
+ * Descriptors naming no known limiter are reported OK without a limit.
+ */
+
+import path from 'path';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import { decideRateLimit, limiterConfigFromPolicy } from '../middlewares/rateLimiter.ts';
+import { getLimiterPolicy } from './policyService.ts';
+import { getLimiterMode, recordShadowRejection } from './limiterModeService.ts';
+import { formatRateLimitHeaders, type RateLimitPolicyState } from '../utils/rateLimitHeaders.ts';
+import { ServiceUnavailableError } from '../utils/errors.ts';
+import logger from '../utils/logger.ts';
+
+type Code = 'OK' | 'OVER_LIMIT';
+type Unit = 'SECOND' | 'MINUTE' | 'HOUR' | 'DAY' | 'WEEK';
+
+interface RateLimitDescriptor {
+  entries: Array<{ key: string; value: string }>;
+  hits_addend?: { value: number } | null;
+}
+
+interface RateLimitRequest {
+  domain: string;
+  descriptors: RateLimitDescriptor[];
+  hits_addend: number;
+}
+
+interface DescriptorStatus {
+  code: Code;
+  current_limit?: { name: string; requests_per_unit: number; unit: Unit };
+  limit_remaining?: number;
+  duration_until_reset?: { seconds: number; nanos: number };
+}
+
+interface RateLimitResponse {
+  overall_code: Code;
+  statuses: DescriptorStatus[];
+  response_headers_to_add: Array<{ key: string; value: string }>;
+}
+
+const PROTO_PATH = path.resolve(process.cwd(), 'proto', 'rls.proto');
+
+const UNITS: Array<[Unit, number]> = [
+  ['SECOND', 1000],
+  ['MINUTE', 60_000],
+  ['HOUR', 3_600_000],
+  ['DAY', 86_400_000],
+  ['WEEK', 604_800_000],
+];
+
+let server: grpc.Server | null = null;
+
+/**
+ * Express a window as requests per Envoy unit: the smallest unit covering the window,
+ * scaled down. Only informational — the decision itself uses the exact window.
+ */
+function toEnvoyLimit(
+  maxRequests: number,
+  windowMs: number
+): { requests_per_unit: number; unit: Unit } {
+  const [unit, unitMs] = UNITS.find(([, ms]) => ms >= windowMs) || UNITS[UNITS.length - 1];
+  return { requests_per_unit: Math.floor((maxRequests * unitMs) / windowMs), unit };
+}
+
+/**
+ * Check one descriptor. Returns its status and, when a limit applied, the policy state
+ * for the response headers.
+ */
+async function checkDescriptor(
+  request: RateLimitRequest,
+  descriptor: RateLimitDescriptor
+): Promise<{ status: DescriptorStatus; policy?: RateLimitPolicyState }> {
+  const [first, ...rest] = descriptor.entries;
+  const name = first?.value;
+  const limiter = name ? getLimiterPolicy(name) : undefined;
+  if (!name || !limiter) {
+    return { status: { code: 'OK' } };
+  }
+
+  const config = limiterConfigFromPolicy(name, limiter);
+  const identifier = rest.length > 0 ? rest.map((entry) => entry.value).join(':') : request.domain;
+  // Envoy sends 0 for "not set"; the descriptor's addend overrides the request's
+  const hits = Number(descriptor.hits_addend?.value || request.hits_addend || 0);
+  const weight = hits > 0 ? hits : limiter.weight;
+
+  const decision = await decideRateLimit(config, identifier, weight);
+  if (!decision) {
+    // Redis unavailable and the limiter fails open
+    return { status: { code: 'OK' } };
+  }
+
+  let allowed = decision.allowed;
+  if (!allowed && getLimiterMode(name, config.mode) === 'shadow') {
+    recordShadowRejection(name, {
+      source: 'envoy',
+      domain: request.domain,
+      identifier,
+      reason: config.message || 'Rate limit exceeded',
+      retryAfter: decision.retryAfter,
+    });
+    allowed = true;
+  }
+
+  const untilReset = Math.max(0, decision.resetTime - Date.now());
+  return {
+    status: {
+      code: allowed ? 'OK' : 'OVER_LIMIT',
+      current_limit: { name, ...toEnvoyLimit(config.maxRequests, config.windowMs) },
+      limit_remaining: Math.max(0, Math.floor(decision.remaining)),
+      duration_until_reset: {
+        seconds: Math.floor(untilReset / 1000),
+        nanos: (untilReset % 1000) * 1_000_000,
+      },
+    },
+    policy: {
+      name,
+      limit: decision.limit,
+      remaining: decision.remaining,
+      resetTime: decision.resetTime,
+      windowMs: config.windowMs,
+    },
+  };
+}
+
+/**
+ * ShouldRateLimit: every descriptor is checked (and consumed) in order; the request is
+ * over the limit when any descriptor is.
+ */
+export async function shouldRateLimit(request: RateLimitRequest): Promise<RateLimitResponse> {
+  const statuses: DescriptorStatus[] = [];
+  const policies: RateLimitPolicyState[] = [];
+
+  for (const descriptor of request.descriptors || []) {
+    const { status, policy } = await checkDescriptor(request, descriptor);
+    statuses.push(status);
+    if (policy) policies.push(policy);
+  }
+
+  return {
+    overall_code: statuses.some((status) => status.code === 'OVER_LIMIT') ? 'OVER_LIMIT' : 'OK',
+    statuses,
+    response_headers_to_add: Object.entries(formatRateLimitHeaders(policies)).map(
+      ([key, value]) => ({ key: key.toLowerCase(), value })
+    ),
+  };
+}
+
+/**
+ * Start the gRPC server (ENVOY_RLS_PORT). A limiter that fails closed while Redis is
+ * down answers UNAVAILABLE, so Envoy's `failure_mode_deny` decides what happens.
+ */
+export async function startEnvoyRateLimitServer(port: number): Promise<void> {
+  if (server) return;
+
+  const definition = protoLoader.loadSync(PROTO_PATH, {
+    keepCase: true,
+    longs: Number,
+    enums: String,
+    defaults: true,
+  });
+  const proto = grpc.loadPackageDefinition(definition) as any;
+  const service = proto.envoy.service.ratelimit.v3.RateLimitService.service;
+
+  const instance = new grpc.Server();
+  instance.addService(service, {
+    ShouldRateLimit: (
+      call: grpc.ServerUnaryCall<RateLimitRequest, RateLimitResponse>,
+      callback: grpc.sendUnaryData<RateLimitResponse>
+    ) => {
+      shouldRateLimit(call.request)
+        .then((response) => callback(null, response))
+        .catch((err: any) => {
+          const unavailable = err instanceof ServiceUnavailableError;
+          if (!unavailable) {
+            logger.error('Envoy rate limit check failed', { error: err && (err.message || err) });
+          }
+          callback({
+            code: unavailable ? grpc.status.UNAVAILABLE : grpc.status.INTERNAL,
+            details: err && err.message,
+          });
+        });
+    },
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    instance.bindAsync(`0.0.0.0:${port}`, grpc.ServerCredentials.createInsecure(), (err) =>
+      err ? reject(err) : resolve()
+    );
+  });
+  server = instance;
+}
+
+/**
+ * Stop accepting calls and wait for in-flight checks to finish
+ */
+export async function stopEnvoyRateLimitServer(): Promise<void> {
+  if (!server) return;
+  const instance = server;
+  server = null;
+  await new Promise<void>((resolve) => instance.tryShutdown(() => resolve()));
+}
@@ -0,0 +1,154 @@
+/**
+ * Idempotency Service
+ * Idempotency-Key records shared by every replica through Redis, one per user and key:
+ * - pending while the first request runs; expires after PENDING_TTL_MS should the replica
+ *   handling it die. Only the request that wrote it can complete or release it.
+ * - completed: holds the response, replayed to retries for IDEMPOTENCY_KEY_TTL_SECONDS
+ * Each record carries a fingerprint of its request, so a key can't be reused for another one.
+ * Responses (e.g. a newly created API key) are stored encrypted with a key derived from the
+ * Idempotency-Key, which Redis only sees hashed: they can only be read by a retry.
+ * Keys: `idem:{userId}:{sha256(key)}`.
+ */
+
+import crypto from 'crypto';
+import { defineScript, runScript } from '../utils/redisScripts.ts';
+
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string | string[]>;
+  body: Buffer;
+}
+
+export type IdempotencyRecord = { fingerprint: string } & (
+  | { state: 'pending' }
+  | { state: 'completed'; response: StoredResponse }
+);
+
+// A key held by this request, until it is completed or abandoned
+export interface IdempotencyClaim {
+  userId: string;
+  key: string;
+  fingerprint: string;
+  pending: string; // the pending record as written, compared before settling
+}
+
+const PENDING_TTL_MS = 60_000;
+const RETENTION_SECONDS = Number(process.env.IDEMPOTENCY_KEY_TTL_SECONDS) || 86_400;
+
+// Claim the key, or return the record already holding it
+const BEGIN_REQUEST = defineScript(`
+if redis.call('SET', KEYS[1], ARGV[1], 'NX', 'PX', ARGV[2]) then
+  return false
+end
+return redis.call('GET', KEYS[1])
+`);
+
+// Replace our pending record with the completed one (ARGV: pending, completed, ttl seconds)
+const COMPLETE_REQUEST = defineScript(`
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+return 1
+`);
+
+// Delete our pending record (ARGV: pending)
+const ABANDON_REQUEST = defineScript(`
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+return redis.call('DEL', KEYS[1])
+`);
+
+function recordKey(userId: string, key: string): string {
+  return `idem:${userId}:${crypto.createHash('sha256').update(key).digest('hex')}`;
+}
+
+function responseKey(userId: string, key: string): Buffer {
+  return crypto.createHmac('sha256', key).update(`idempotency-response:${userId}`).digest();
+}
+
+function sealResponse(userId: string, key: string, response: StoredResponse): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', responseKey(userId, key), iv);
+  const plaintext = JSON.stringify({ ...response, body: response.body.toString('base64') });
+  const sealed = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), sealed]).toString('base64');
+}
+
+function openResponse(userId: string, key: string, sealed: string): StoredResponse {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    responseKey(userId, key),
+    data.subarray(0, 12)
+  );
+  decipher.setAuthTag(data.subarray(12, 28));
+  const plaintext = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+  const response = JSON.parse(plaintext.toString('utf8'));
+  return { ...response, body: Buffer.from(response.body, 'base64') };
+}
+
+/**
+ * Mark the key as in flight for this request. Returns the claim to settle it with when the
+ * caller now owns the key, otherwise the existing record.
+ */
+export async function beginIdempotentRequest(
+  userId: string,
+  key: string,
+  fingerprint: string
+): Promise<{ claim: IdempotencyClaim } | { existing: IdempotencyRecord }> {
+  const pending = JSON.stringify({
+    fingerprint,
+    state: 'pending',
+    owner: crypto.randomBytes(12).toString('hex'),
+  });
+  const existing = (await runScript(
+    BEGIN_REQUEST,
+    [recordKey(userId, key)],
+    [pending, PENDING_TTL_MS]
+  )) as string | null;
+  if (!existing) {
+    return { claim: { userId, key, fingerprint, pending } };
+  }
+
+  const record = JSON.parse(existing);
+  if (record.state === 'completed') {
+    return {
+      existing: {
+        fingerprint: record.fingerprint,
+        state: 'completed',
+        response: openResponse(userId, key, record.response),
+      },
+    };
+  }
+  return { existing: { fingerprint: record.fingerprint, state: 'pending' } };
+}
+
+/**
+ * Store the response for replays. Returns false when the claim was lost (it expired),
+ * in which case nothing is stored.
+ */
+export async function completeIdempotentRequest(
+  claim: IdempotencyClaim,
+  response: StoredResponse
+): Promise<boolean> {
+  const record = {
+    fingerprint: claim.fingerprint,
+    state: 'completed',
+    response: sealResponse(claim.userId, claim.key, response),
+  };
+  const stored = await runScript(
+    COMPLETE_REQUEST,
+    [recordKey(claim.userId, claim.key)],
+    [claim.pending, JSON.stringify(record), RETENTION_SECONDS]
+  );
+  return stored === 1;
+}
+
+/**
+ * Release the key without a stored response, so a retry runs the request again
+ */
+export async function abandonIdempotentRequest(claim: IdempotencyClaim): Promise<void> {
+  await runScript(ABANDON_REQUEST, [recordKey(claim.userId, claim.key)], [claim.pending]);
+}
@@ -0,0 +1,156 @@
+/**
+ * Limiter Mode Service
+ * Per-limiter enforce/shadow switch. In shadow mode a limiter still computes and records
+ * its decision, but a would-be rejection is only logged, counted and flagged with an
+ * `X-RateLimit-Shadow` header instead of failing the request.
+ *
+ * Limiter names: global limiters use their policy name (e.g. `auth`), the per-plan
+ * limiter is `plan`, the per-plan concurrency limiter is `concurrency`, monthly quotas
+ * are `quota` and route limits are `route:{name}`.
+ */
+
+import express from 'express';
+import redis, { isRedisReady } from '../utils/redis.ts';
+import logger from '../utils/logger.ts';
+import { ServiceUnavailableError, type AppError } from '../utils/errors.ts';
+import { getPolicy } from './policyService.ts';
+
+export type LimiterMode = 'enforce' | 'shadow';
+
+// Runtime overrides are shared between replicas through this hash
+const OVERRIDES_KEY = 'rl:limiter-modes';
+const OVERRIDES_REFRESH_MS = 5000;
+
+// Suggested retry delay when an override can't be stored
+const OVERRIDES_RETRY_AFTER = 5;
+
+let overrides = new Map<string, LimiterMode>();
+let overridesFetchedAt = 0;
+let refreshing = false;
+
+const shadowRejections = new Map<string, number>();
+
+async function refreshOverrides(): Promise<void> {
+  if (refreshing || !isRedisReady()) return;
+  refreshing = true;
+  try {
+    const stored = await redis.hgetall(OVERRIDES_KEY);
+    overrides = new Map(
+      Object.entries(stored).filter(
+        (entry): entry is [string, LimiterMode] => entry[1] === 'enforce' || entry[1] === 'shadow'
+      )
+    );
+    overridesFetchedAt = Date.now();
+  } catch (err: any) {
+    logger.warn('Failed to refresh limiter mode overrides', { error: err && (err.message || err) });
+  } finally {
+    refreshing = false;
+  }
+}
+
+/**
+ * Effective mode for a limiter: runtime override, then the policy file's `modes`, then
+ * the mode configured in code, defaulting to enforce.
+ */
+export function getLimiterMode(name: string | undefined, configured?: LimiterMode): LimiterMode {
+  if (Date.now() - overridesFetchedAt > OVERRIDES_REFRESH_MS) {
+    // Refresh in the background; the hot path never waits on it
+    void refreshOverrides();
+  }
+  if (!name) {
+    return configured || 'enforce';
+  }
+  return overrides.get(name) || getPolicy().modes[name] || configured || 'enforce';
+}
+
+/**
+ * Switch a limiter's mode at runtime (all replicas pick it up within a few seconds).
+ * Pass `null` to drop the override and fall back to the policy file.
+ * Rejected with 503 while Redis is unavailable: an override kept only in this process
+ * would be overwritten by the next refresh.
+ */
+export async function setLimiterMode(name: string, mode: LimiterMode | null): Promise<void> {
+  if (!isRedisReady()) {
+    throw new ServiceUnavailableError(
+      'Limiter modes cannot be changed while Redis is unavailable',
+      {
+        retryAfter: OVERRIDES_RETRY_AFTER,
+      }
+    );
+  }
+
+  if (mode) {
+    await redis.hset(OVERRIDES_KEY, name, mode);
+    overrides.set(name, mode);
+  } else {
+    await redis.hdel(OVERRIDES_KEY, name);
+    overrides.delete(name);
+  }
+  logger.info(`Limiter mode for ${name} set to ${mode || 'policy default'}`);
+}
+
+/**
+ * Throw the rejection, or in shadow mode record it and let the request through
+ */
+export function rejectOrShadow(
+  req: express.Request,
+  res: express.Response,
+  name: string | undefined,
+  mode: LimiterMode,
+  error: AppError
+): void {
+  if (mode !== 'shadow') {
+    throw error;
+  }
+
+  const limiter = name || 'unnamed';
+  res.append('X-RateLimit-Shadow', limiter);
+
+  recordShadowRejection(limiter, {
+    requestId: (req as any).requestId,
+    method: req.method,
+    path: req.originalUrl || req.url,
+    ip: req.ip,
+    apiKeyId: (req as any).apiKeyId,
+    userId: (req as any).userId,
+    reason: error.message,
+    details: error.details,
+  });
+}
+
+/**
+ * Count and log a rejection a shadow limiter let through. `context` describes the request.
+ */
+export function recordShadowRejection(limiter: string, context: Record<string, unknown>): void {
+  shadowRejections.set(limiter, (shadowRejections.get(limiter) || 0) + 1);
+  logger.warn('Shadow rate limit rejection', { limiter, ...context });
+}
+
+/**
+ * Modes and shadow rejection counts (since process start) for every known limiter
+ */
+export function getLimiterModes(): Array<{
+  name: string;
+  mode: LimiterMode;
+  overridden: boolean;
+  shadowRejections: number;
+}> {
+  const policy = getPolicy();
+  const names = new Set<string>([
+    ...Object.keys(policy.limiters),
+    'plan',
+    'concurrency',
+    'quota',
+    ...policy.routes.map((route) => `route:${route.name}`),
+    ...Object.keys(policy.modes),
+    ...overrides.keys(),
+    ...shadowRejections.keys(),
+  ]);
+
+  return [...names].sort().map((name) => ({
+    name,
+    mode: getLimiterMode(name),
+    overridden: overrides.has(name),
+    shadowRejections: shadowRejections.get(name) || 0,
+  }));
+}
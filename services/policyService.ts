@@ -0,0 +1,199 @@
+/**
+ * Rate Limit Policy Service
+ * Loads the declarative YAML policy (limiters, route limits, plan overrides),
+ * validates it with Zod and hot-reloads it on SIGHUP or file change.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import logger from '../utils/logger.ts';
+import { watchConfigFile, type ConfigWatcher } from '../utils/configWatcher.ts';
+import type { RouteRateLimit } from '../middlewares/routeRateLimiter.ts';
+
+const positiveInt = z.number().int().positive();
+
+// Behavior while Redis is unavailable (see services/rateLimitFailover.ts)
+const failureModeSchema = z.enum(['open', 'closed', 'fallback']);
+
+const limiterSchema = z
+  .object({
+    algorithm: z
+      .enum(['sliding-window', 'fixed-window', 'token-bucket', 'gcra', 'sliding-log'])
+      .default('sliding-window'),
+    windowMs: positiveInt,
+    maxRequests: positiveInt,
+    weight: positiveInt.default(1),
+    refillRate: z.number().positive().optional(),
+    identifier: z.enum(['ip', 'apiKey', 'user', 'header']).default('ip'),
+    header: z.string().min(1).optional(),
+    message: z.string().optional(),
+    failureMode: failureModeSchema.optional(),
+  })
+  .refine((limiter) => limiter.identifier !== 'header' || !!limiter.header, {
+    message: '`header` is required when identifier is "header"',
+  });
+
+const routeSchema = z.object({
+  name: z.string().min(1),
+  pattern: z.string().refine(
+    (pattern) => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid regular expression' }
+  ),
+  requestsPerMinute: positiveInt.optional(),
+  requestsPerHour: positiveInt.optional(),
+  requestsPerDay: positiveInt.optional(),
+  burstLimit: positiveInt.optional(),
+  failureMode: failureModeSchema.optional(),
+});
+
+const planOverrideSchema = z.object({
+  requestsPerMinute: z.number().int().nonnegative().optional(),
+  requestsPerHour: z.number().int().nonnegative().optional(),
+  requestsPerDay: z.number().int().nonnegative().optional(),
+  burstLimit: z.number().int().nonnegative().optional(),
+  maxConcurrent: z.number().int().nonnegative().optional(),
+  maxStreams: z.number().int().nonnegative().optional(),
+  streamMessagesPerSecond: z.number().int().nonnegative().optional(),
+  monthlyQuota: z.number().int().nonnegative().optional(),
+  monthlySoftLimit: z.number().int().nonnegative().optional(),
+  allowOverage: z.boolean().optional(),
+  limitScope: z.enum(['key', 'user']).optional(),
+});
+
+const policySchema = z.object({
+  limiters: z.record(z.string(), limiterSchema).default({}),
+  routes: z
+    .array(routeSchema)
+    .default([])
+    .refine((routes) => new Set(routes.map((route) => route.name)).size === routes.length, {
+      message: 'Route names must be unique',
+    }),
+  plans: z.record(z.string(), planOverrideSchema).default({}),
+  modes: z.record(z.string(), z.enum(['enforce', 'shadow'])).default({}),
+});
+
+export type LimiterPolicy = z.infer<typeof limiterSchema>;
+export type PlanOverride = z.infer<typeof planOverrideSchema>;
+
+export interface RateLimitPolicy {
+  limiters: Record<string, LimiterPolicy>;
+  routes: RouteRateLimit[];
+  plans: Record<string, PlanOverride>;
+  modes: Record<string, 'enforce' | 'shadow'>;
+  loadedAt: Date;
+}
+
+const policyPath = path.resolve(
+  process.cwd(),
+  process.env.RATE_LIMIT_POLICY_FILE || path.join('config', 'rate-limits.yaml')
+);
+
+let currentPolicy: RateLimitPolicy | null = null;
+
+/**
+ * Read, parse and validate the policy file. Throws on any problem.
+ */
+function readPolicyFile(): RateLimitPolicy {
+  const raw = fs.readFileSync(policyPath, 'utf8');
+  const parsed = policySchema.parse(yaml.load(raw) ?? {});
+
+  return {
+    limiters: parsed.limiters,
+    routes: parsed.routes.map((route) => ({ ...route, pattern: new RegExp(route.pattern) })),
+    plans: parsed.plans,
+    modes: parsed.modes,
+    loadedAt: new Date(),
+  };
+}
+
+function describeError(err: any): string {
+  if (err instanceof z.ZodError) {
+    return err.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+  }
+  return err && (err.message || String(err));
+}
+
+/**
+ * Current policy; loaded on first use. An invalid file at startup is fatal.
+ */
+export function getPolicy(): RateLimitPolicy {
+  if (!currentPolicy) {
+    try {
+      currentPolicy = readPolicyFile();
+    } catch (err: any) {
+      throw new Error(`Invalid rate limit policy (${policyPath}): ${describeError(err)}`);
+    }
+    logger.info(`Rate limit policy loaded from ${policyPath}`);
+  }
+  return currentPolicy;
+}
+
+/**
+ * Reload the policy file. A file that fails to load is rejected and the
+ * previous policy is kept. Returns whether the new policy was applied.
+ */
+export function reloadPolicy(): boolean {
+  try {
+    currentPolicy = readPolicyFile();
+    logger.info(`Rate limit policy reloaded from ${policyPath}`);
+    return true;
+  } catch (err: any) {
+    logger.error(
+      `Rejected rate limit policy reload, keeping previous policy: ${describeError(err)}`
+    );
+    return false;
+  }
+}
+
+export function getLimiterPolicy(name: string): LimiterPolicy | undefined {
+  return getPolicy().limiters[name];
+}
+
+export function getRouteLimits(): RouteRateLimit[] {
+  return getPolicy().routes;
+}
+
+export function getPlanOverride(planName: string): PlanOverride | undefined {
+  return getPolicy().plans[planName];
+}
+
+let watcher: ConfigWatcher | null = null;
+
+const onSighup = (): void => {
+  logger.info('Received SIGHUP, reloading rate limit policy');
+  reloadPolicy();
+};
+
+/**
+ * Reload on SIGHUP and whenever the policy file changes
+ */
+export function watchPolicy(): void {
+  if (watcher) return;
+
+  process.on('SIGHUP', onSighup);
+
+  try {
+    watcher = watchConfigFile(policyPath, reloadPolicy);
+  } catch (err: any) {
+    logger.warn(
+      `Could not watch rate limit policy file, SIGHUP reload only: ${describeError(err)}`
+    );
+  }
+}
+
+export function stopWatchingPolicy(): void {
+  process.off('SIGHUP', onSighup);
+  if (watcher) {
+    watcher.close();
+    watcher = null;
+  }
+}
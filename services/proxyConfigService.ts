@@ -0,0 +1,332 @@
+/**
+ * Proxy Route Table Service
+ * Loads the upstream routing table and pools (config/gateway.yaml), validates them with
+ * Zod and hot-reloads them on SIGHUP or file change, like the rate limit policy.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import logger from '../utils/logger.ts';
+import { watchConfigFile, type ConfigWatcher } from '../utils/configWatcher.ts';
+import { MAX_CACHE_TTL_SECONDS } from '../utils/httpCache.ts';
+import type { ProxyRoute } from './proxyService.ts';
+import { configurePools, type UpstreamPool } from './upstreamPoolService.ts';
+import { unknownTemplateVariables } from './proxyTransformService.ts';
+
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'] as const;
+
+const httpUrl = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//.test(url), { message: 'Must be an http(s) URL' });
+
+const regex = z.string().refine(
+  (pattern) => {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid regular expression' }
+);
+
+// Passive ejection unless a pool configures its own
+const DEFAULT_PASSIVE = { maxFailures: 5, ejectMs: 30_000 };
+
+const circuitBreakerSchema = z
+  .object({
+    windowMs: z.number().int().min(1000).default(30_000),
+    minRequests: z.number().int().positive().default(20),
+    errorRate: z.number().gt(0).max(1).default(0.5),
+    slowCallMs: z.number().int().positive().optional(),
+    slowCallRate: z.number().gt(0).max(1).optional(),
+    openMs: z.number().int().min(1000).default(30_000),
+    halfOpenRequests: z.number().int().positive().default(3),
+  })
+  .refine((breaker) => !breaker.slowCallRate || !!breaker.slowCallMs, {
+    message: '`slowCallRate` requires `slowCallMs`',
+  });
+
+const upstreamPoolSchema = z.object({
+  balancer: z.enum(['round-robin', 'least-connections', 'weighted']).default('round-robin'),
+  targets: z
+    .array(
+      z.union([
+        httpUrl.transform((url) => ({ url, weight: 1 })),
+        z.object({ url: httpUrl, weight: z.number().int().positive().default(1) }),
+      ])
+    )
+    .min(1),
+  healthCheck: z
+    .object({
+      path: z.string().startsWith('/'),
+      intervalMs: z.number().int().min(1000).default(10_000),
+      timeoutMs: z.number().int().positive().default(2000),
+      healthyThreshold: z.number().int().positive().default(2),
+      unhealthyThreshold: z.number().int().positive().default(3),
+    })
+    .optional(),
+  passive: z
+    .object({
+      maxFailures: z.number().int().positive().default(DEFAULT_PASSIVE.maxFailures),
+      ejectMs: z.number().int().positive().default(DEFAULT_PASSIVE.ejectMs),
+    })
+    .default(DEFAULT_PASSIVE),
+  circuitBreaker: circuitBreakerSchema.optional(),
+});
+
+// Idempotent methods (RFC 9110 §9.2.2)
+const RETRY_METHODS: Array<(typeof HTTP_METHODS)[number]> = [
+  'GET',
+  'HEAD',
+  'OPTIONS',
+  'PUT',
+  'DELETE',
+];
+
+const retryPolicySchema = z
+  .object({
+    attempts: z.number().int().min(1).max(5).default(2),
+    methods: z.array(z.enum(HTTP_METHODS)).min(1).default(RETRY_METHODS),
+    statuses: z.array(z.number().int().min(500).max(599)).default([502, 503, 504]),
+    baseDelayMs: z.number().int().positive().default(50),
+    maxDelayMs: z.number().int().positive().default(1000),
+    budgetPercent: z.number().min(0).max(100).default(20),
+    minRetriesPerSecond: z.number().min(0).default(1),
+  })
+  .refine((retry) => retry.maxDelayMs >= retry.baseDelayMs, {
+    message: '`maxDelayMs` must be at least `baseDelayMs`',
+  });
+
+const headerName = z
+  .string()
+  .regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, { message: 'Invalid header name' })
+  .transform((name) => name.toLowerCase());
+
+const template = z.string().superRefine((value, ctx) => {
+  for (const name of unknownTemplateVariables(value)) {
+    ctx.addIssue({
+      code: 'custom',
+      message: name.startsWith('env.')
+        ? `Environment variable ${name.slice(4)} is not set`
+        : `Unknown template variable '${name}'`,
+    });
+  }
+});
+
+const headerRulesSchema = z.object({
+  setHeaders: z.record(headerName, template).default({}),
+  removeHeaders: z.array(headerName).default([]),
+});
+
+const transformSchema = z.object({
+  request: headerRulesSchema
+    .extend({
+      rewrite: z.object({ pattern: regex, replacement: template }).optional(),
+    })
+    .default({ setHeaders: {}, removeHeaders: [] }),
+  response: headerRulesSchema.default({ setHeaders: {}, removeHeaders: [] }),
+});
+
+const cacheSchema = z.object({
+  ttl: z.number().int().positive().max(MAX_CACHE_TTL_SECONDS).default(60),
+  scope: z.enum(['apiKey', 'shared']).default('apiKey'),
+  tags: z.array(z.string().regex(/^[^\s,]+$/, { message: 'Invalid cache tag' })).default([]),
+  coalesce: z.boolean().default(true),
+});
+
+const proxyRouteSchema = z
+  .object({
+    name: z.string().min(1),
+    prefix: z.string().startsWith('/').optional(),
+    pattern: regex.optional(),
+    methods: z.array(z.enum(HTTP_METHODS)).min(1).optional(),
+    upstream: z.string().min(1), // pool name, or a URL for a single-target upstream
+    stripPrefix: z.boolean().default(false),
+    connectTimeoutMs: z.number().int().positive().optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    retry: retryPolicySchema.optional(),
+    transform: transformSchema.optional(),
+    cache: cacheSchema.optional(),
+    circuitBreaker: circuitBreakerSchema.optional(), // URL upstreams only
+  })
+  .refine((route) => !!route.prefix !== !!route.pattern, {
+    message: 'Exactly one of `prefix` or `pattern` is required',
+  })
+  .refine((route) => !route.stripPrefix || !!route.prefix, {
+    message: '`stripPrefix` requires `prefix`',
+  });
+
+const isUrl = (upstream: string) => /^https?:\/\//.test(upstream);
+
+const proxyConfigSchema = z
+  .object({
+    upstreams: z.record(z.string(), upstreamPoolSchema).default({}),
+    routes: z
+      .array(proxyRouteSchema)
+      .default([])
+      .refine((routes) => new Set(routes.map((route) => route.name)).size === routes.length, {
+        message: 'Route names must be unique',
+      }),
+  })
+  .superRefine((config, ctx) => {
+    config.routes.forEach((route, i) => {
+      if (isUrl(route.upstream)) {
+        // A URL upstream becomes a single-target pool named after the route
+        if (config.upstreams[route.name]) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['routes', i, 'name'],
+            message: `Route with a URL upstream cannot share its name with upstream '${route.name}'`,
+          });
+        }
+      } else if (!config.upstreams[route.upstream]) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['routes', i, 'upstream'],
+          message: `Unknown upstream '${route.upstream}'`,
+        });
+      } else if (route.circuitBreaker) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['routes', i, 'circuitBreaker'],
+          message: `Configure the circuit breaker on upstream '${route.upstream}'`,
+        });
+      }
+    });
+  });
+
+export interface ProxyConfig {
+  upstreams: UpstreamPool[];
+  routes: ProxyRoute[];
+  loadedAt: Date;
+}
+
+const configPath = path.resolve(
+  process.cwd(),
+  process.env.GATEWAY_CONFIG_FILE || path.join('config', 'gateway.yaml')
+);
+
+let currentConfig: ProxyConfig | null = null;
+
+/**
+ * Read, parse and validate the route table. Throws on any problem.
+ */
+function readConfigFile(): ProxyConfig {
+  const raw = fs.readFileSync(configPath, 'utf8');
+  const parsed = proxyConfigSchema.parse(yaml.load(raw) ?? {});
+
+  const upstreams: UpstreamPool[] = Object.entries(parsed.upstreams).map(([name, pool]) => ({
+    ...pool,
+    name,
+    targets: pool.targets.map((target) => ({ url: new URL(target.url), weight: target.weight })),
+  }));
+  for (const route of parsed.routes) {
+    if (isUrl(route.upstream)) {
+      upstreams.push({
+        name: route.name,
+        balancer: 'round-robin',
+        targets: [{ url: new URL(route.upstream), weight: 1 }],
+        passive: DEFAULT_PASSIVE,
+        circuitBreaker: route.circuitBreaker,
+      });
+    }
+  }
+
+  return {
+    upstreams,
+    routes: parsed.routes.map((route) => ({
+      ...route,
+      pattern: route.pattern ? new RegExp(route.pattern) : undefined,
+      transform: route.transform && {
+        ...route.transform,
+        request: {
+          ...route.transform.request,
+          rewrite: route.transform.request.rewrite && {
+            pattern: new RegExp(route.transform.request.rewrite.pattern),
+            replacement: route.transform.request.rewrite.replacement,
+          },
+        },
+      },
+      upstream: isUrl(route.upstream) ? route.name : route.upstream,
+    })),
+    loadedAt: new Date(),
+  };
+}
+
+function describeError(err: any): string {
+  if (err instanceof z.ZodError) {
+    return err.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+  }
+  return err && (err.message || String(err));
+}
+
+/**
+ * Current route table; loaded on first use. An invalid file at startup is fatal.
+ */
+export function getProxyConfig(): ProxyConfig {
+  if (!currentConfig) {
+    try {
+      currentConfig = readConfigFile();
+      configurePools(currentConfig.upstreams);
+    } catch (err: any) {
+      throw new Error(`Invalid gateway config (${configPath}): ${describeError(err)}`);
+    }
+    logger.info(`Gateway routes loaded from ${configPath}`);
+  }
+  return currentConfig;
+}
+
+/**
+ * Reload the route table. A file that fails to load is rejected and the previous
+ * table is kept. Returns whether the new table was applied.
+ */
+export function reloadProxyConfig(): boolean {
+  try {
+    currentConfig = readConfigFile();
+    configurePools(currentConfig.upstreams);
+    logger.info(`Gateway routes reloaded from ${configPath}`);
+    return true;
+  } catch (err: any) {
+    logger.error(`Rejected gateway config reload, keeping previous routes: ${describeError(err)}`);
+    return false;
+  }
+}
+
+export function getProxyRoutes(): ProxyRoute[] {
+  return getProxyConfig().routes;
+}
+
+let watcher: ConfigWatcher | null = null;
+
+const onSighup = (): void => {
+  logger.info('Received SIGHUP, reloading gateway routes');
+  reloadProxyConfig();
+};
+
+/**
+ * Reload on SIGHUP and whenever the config file changes
+ */
+export function watchProxyConfig(): void {
+  if (watcher) return;
+
+  process.on('SIGHUP', onSighup);
+
+  try {
+    watcher = watchConfigFile(configPath, reloadProxyConfig);
+  } catch (err: any) {
+    logger.warn(`Could not watch gateway config file, SIGHUP reload only: ${describeError(err)}`);
+  }
+}
+
+export function stopWatchingProxyConfig(): void {
+  process.off('SIGHUP', onSighup);
+  if (watcher) {
+    watcher.close();
+    watcher = null;
+  }
+}
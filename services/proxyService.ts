@@ -0,0 +1,430 @@
+/**
+ * Reverse Proxy Service
+ * Forwards a request to a target of its route's upstream pool. Bodies are streamed in both directions,
+ * hop-by-hop headers are dropped and X-Forwarded-* / X-Request-Id are added. The caller's
+ * credentials are replaced with its identity and the route's transform rules applied
+ * (see proxyTransformService).
+ * Upstream errors, failures and timeouts are answered in the standard error format.
+ */
+
+import http from 'http';
+import https from 'https';
+import type { Readable } from 'stream';
+import type { TLSSocket } from 'tls';
+import express from 'express';
+import { AppError, BadGatewayError, ErrorCode, GatewayTimeoutError } from '../utils/errors.ts';
+import { createErrorResponse } from '../utils/response.ts';
+import logger from '../utils/logger.ts';
+import type { CacheOptions } from '../utils/httpCache.ts';
+import type { RetryPolicy } from './retryService.ts';
+import {
+  rewritePath,
+  stripCredentialQuery,
+  transformRequestHeaders,
+  transformResponseHeaders,
+  type ProxyTransform,
+  type TransformContext,
+} from './proxyTransformService.ts';
+
+export interface ProxyRoute {
+  name: string;
+  prefix?: string; // matches the prefix itself and every path below it
+  pattern?: RegExp; // alternative to prefix, tested against the full path
+  methods?: string[]; // all methods when unset
+  upstream: string; // upstream pool; a target's URL path is prepended to the forwarded path
+  stripPrefix: boolean; // drop the matched prefix before forwarding
+  connectTimeoutMs?: number; // PROXY_CONNECT_TIMEOUT_MS by default
+  timeoutMs?: number; // read (idle) timeout, PROXY_TIMEOUT_MS by default
+  retry?: RetryPolicy;
+  transform?: ProxyTransform;
+  cache?: CacheOptions; // GET/HEAD responses, see middlewares/cache.ts
+}
+
+export interface ForwardOptions {
+  body?: Buffer; // send this instead of streaming the request (see readReplayableBody)
+  retryStatuses?: number[]; // upstream statuses that are drained instead of sent, for a retry
+  context?: TransformContext; // template variables, see transformContext
+  responseBody?: (upstreamRes: http.IncomingMessage) => Readable; // wraps a successful response body
+}
+
+// RFC 9110 §7.6.1, plus the non-standard Proxy-Connection
+const HOP_BY_HOP = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+// Upstream statuses with a matching error code of our own; others map to UPSTREAM_ERROR
+const STATUS_CODES: Record<number, string> = {
+  400: ErrorCode.BAD_REQUEST,
+  401: ErrorCode.UNAUTHORIZED,
+  403: ErrorCode.FORBIDDEN,
+  404: ErrorCode.NOT_FOUND,
+  409: ErrorCode.CONFLICT,
+  429: ErrorCode.RATE_LIMIT_EXCEEDED,
+  503: ErrorCode.SERVICE_UNAVAILABLE,
+};
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.PROXY_TIMEOUT_MS) || 30_000;
+export const DEFAULT_CONNECT_TIMEOUT_MS = Number(process.env.PROXY_CONNECT_TIMEOUT_MS) || 5000;
+const MAX_ERROR_BODY_BYTES = 64 * 1024;
+const MAX_REPLAYABLE_BODY_BYTES = 1024 * 1024;
+
+const agents = {
+  http: new http.Agent({ keepAlive: true }),
+  https: new https.Agent({ keepAlive: true }),
+};
+
+function matchesPrefix(path: string, prefix: string): boolean {
+  const base = prefix.endsWith('/') ? prefix.slice(0, -1) : prefix;
+  return path === base || path.startsWith(`${base}/`);
+}
+
+/**
+ * First route matching the method and path, in table order
+ */
+export function matchProxyRoute(
+  routes: ProxyRoute[],
+  method: string,
+  path: string
+): ProxyRoute | undefined {
+  return routes.find(
+    (route) =>
+      (!route.methods || route.methods.includes(method)) &&
+      (route.prefix ? matchesPrefix(path, route.prefix) : !!route.pattern?.test(path))
+  );
+}
+
+/**
+ * Template variables for a request's transform rules. `plan` has to be looked up by the
+ * caller.
+ */
+export function transformContext(
+  req: express.Request,
+  route: ProxyRoute,
+  plan?: string
+): TransformContext {
+  return {
+    userId: (req as any).userId,
+    apiKeyId: (req as any).apiKeyId,
+    plan,
+    requestId: (req as any).requestId,
+    route: route.name,
+    method: req.method,
+    path: req.path,
+    clientIp: req.ip,
+  };
+}
+
+/**
+ * Upstream URL for a request URL (path and query), after the route's path rewrite
+ */
+export function buildUpstreamUrl(
+  route: ProxyRoute,
+  targetBase: URL,
+  requestUrl: string,
+  context?: TransformContext
+): URL {
+  const queryStart = requestUrl.indexOf('?');
+  let path = queryStart === -1 ? requestUrl : requestUrl.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : requestUrl.slice(queryStart);
+
+  if (route.stripPrefix && route.prefix) {
+    path = path.slice(route.prefix.replace(/\/$/, '').length);
+    if (!path.startsWith('/')) path = `/${path}`;
+  }
+  if (context) {
+    path = rewritePath(route.transform, path, context);
+  }
+
+  const url = new URL(targetBase.toString());
+  url.pathname = `${url.pathname.replace(/\/$/, '')}${path}`;
+  url.search = query;
+  return url;
+}
+
+/**
+ * Copy headers without hop-by-hop fields, including those listed in Connection
+ */
+function endToEndHeaders(headers: http.IncomingHttpHeaders): http.OutgoingHttpHeaders {
+  const listed = String(headers.connection || '')
+    .split(',')
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean);
+
+  const result: http.OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || HOP_BY_HOP.has(name) || listed.includes(name)) continue;
+    result[name] = value;
+  }
+  return result;
+}
+
+/**
+ * Headers for the upstream request: end-to-end headers plus forwarding headers, then the
+ * route's transform. Takes a plain IncomingMessage for WebSocket upgrades.
+ */
+export function upstreamRequestHeaders(
+  req: http.IncomingMessage,
+  target: URL,
+  route: ProxyRoute,
+  context: TransformContext
+): http.OutgoingHttpHeaders {
+  const headers = endToEndHeaders(req.headers);
+
+  const client = req.socket.remoteAddress || 'unknown';
+  const forwardedFor = req.headers['x-forwarded-for'];
+  headers['x-forwarded-for'] = forwardedFor ? `${forwardedFor}, ${client}` : client;
+  headers['x-forwarded-proto'] =
+    (req as express.Request).protocol || ((req.socket as TLSSocket).encrypted ? 'https' : 'http');
+  if (req.headers.host) {
+    headers['x-forwarded-host'] = req.headers.host;
+  }
+  if ((req as any).requestId) {
+    headers['x-request-id'] = (req as any).requestId;
+  }
+  headers.host = target.host;
+
+  // Route rules come last so they can override any of the above
+  transformRequestHeaders(headers, route.transform, context);
+  return headers;
+}
+
+function upstreamMessage(body: any, status: number): string {
+  if (body && typeof body === 'object') {
+    if (typeof body.message === 'string') return body.message;
+    if (typeof body.error === 'string') return body.error;
+    if (typeof body.error?.message === 'string') return body.error.message;
+  }
+  return http.STATUS_CODES[status] || 'Upstream error';
+}
+
+/**
+ * Answer an upstream error status in the standard error format.
+ * Bodies already in that format are passed through unchanged.
+ */
+async function sendUpstreamError(
+  res: express.Response,
+  route: ProxyRoute,
+  upstreamRes: http.IncomingMessage,
+  status: number,
+  context: TransformContext
+): Promise<void> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of upstreamRes) {
+    if (size < MAX_ERROR_BODY_BYTES) chunks.push(chunk);
+    size += chunk.length;
+  }
+
+  let body: any = null;
+  const encoding = upstreamRes.headers['content-encoding'];
+  const isJson = /json/i.test(upstreamRes.headers['content-type'] || '');
+  if (isJson && (!encoding || encoding === 'identity') && size <= MAX_ERROR_BODY_BYTES) {
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      body = null;
+    }
+  }
+
+  const headers = endToEndHeaders(upstreamRes.headers);
+  delete headers['content-length'];
+  delete headers['content-type'];
+  delete headers['content-encoding'];
+  transformResponseHeaders(headers, route.transform, context);
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value as string | string[]);
+  }
+
+  if (body?.success === false && typeof body.error?.code === 'string') {
+    res.status(status).json(body);
+    return;
+  }
+
+  res.status(status).json(
+    createErrorResponse(
+      STATUS_CODES[status] || ErrorCode.UPSTREAM_ERROR,
+      upstreamMessage(body, status),
+      {
+        upstream: route.upstream,
+        upstreamStatus: status,
+      }
+    )
+  );
+}
+
+/**
+ * Buffer the request body so it can be sent more than once. Returns null for bodies that
+ * have to be streamed: chunked ones and those over 1 MiB.
+ */
+export async function readReplayableBody(req: express.Request): Promise<Buffer | null> {
+  if (req.headers['transfer-encoding']) return null;
+  const length = Number(req.headers['content-length'] || 0);
+  if (length > MAX_REPLAYABLE_BODY_BYTES) return null;
+  if (length === 0) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Forward the request to a target of the route's upstream and stream the response back.
+ * Resolves with the upstream status (502 when the upstream failed mid-response, 499 when
+ * the client went away); a status listed in `retryStatuses` is drained and nothing is
+ * sent. Rejects with BadGatewayError / GatewayTimeoutError when the upstream fails
+ * before responding.
+ */
+export function forwardRequest(
+  req: express.Request,
+  res: express.Response,
+  route: ProxyRoute,
+  targetBase: URL,
+  options: ForwardOptions = {}
+): Promise<number> {
+  const context = options.context || transformContext(req, route);
+  const target = buildUpstreamUrl(route, targetBase, req.originalUrl, context);
+  stripCredentialQuery(target);
+  const timeoutMs = route.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const connectTimeoutMs = route.connectTimeoutMs || DEFAULT_CONNECT_TIMEOUT_MS;
+  const isHttps = target.protocol === 'https:';
+
+  return new Promise<number>((resolve, reject) => {
+    let settled = false;
+    let clientClosed = false;
+    let connectTimer: NodeJS.Timeout | undefined;
+    const unavailable = () =>
+      new BadGatewayError(`Upstream '${route.upstream}' is unavailable`, {
+        upstream: route.upstream,
+      });
+
+    const upstreamReq = (isHttps ? https : http).request(target, {
+      method: req.method,
+      headers: upstreamRequestHeaders(req, target, route, context),
+      agent: isHttps ? agents.https : agents.http,
+      timeout: timeoutMs,
+    });
+
+    // Client went away: stop the upstream call
+    const onClientClose = () => {
+      if (!res.writableFinished) {
+        clientClosed = true;
+        upstreamReq.destroy();
+      }
+    };
+
+    const finish = (status: number) => {
+      if (settled) return;
+      settled = true;
+      res.off('close', onClientClose);
+      resolve(status);
+    };
+
+    const fail = (error: AppError, cause?: any) => {
+      if (settled) return;
+      settled = true;
+      res.off('close', onClientClose);
+      clearTimeout(connectTimer);
+      upstreamReq.destroy();
+
+      if (clientClosed) {
+        resolve(499);
+        return;
+      }
+
+      logger.warn('Upstream request failed', {
+        requestId: (req as any).requestId,
+        upstream: route.upstream,
+        target: `${target.origin}${target.pathname}`,
+        error: cause ? cause.code || cause.message : error.message,
+      });
+
+      if (res.headersSent) {
+        res.destroy();
+        resolve(502);
+      } else {
+        reject(error);
+      }
+    };
+
+    // Reused keep-alive sockets are already connected
+    upstreamReq.on('socket', (socket) => {
+      if (!socket.connecting) return;
+      connectTimer = setTimeout(() => {
+        fail(
+          new GatewayTimeoutError(`Upstream '${route.upstream}' timed out`, {
+            upstream: route.upstream,
+            connectTimeoutMs,
+          })
+        );
+      }, connectTimeoutMs);
+      socket.once(isHttps ? 'secureConnect' : 'connect', () => clearTimeout(connectTimer));
+    });
+
+    upstreamReq.on('timeout', () => {
+      fail(
+        new GatewayTimeoutError(`Upstream '${route.upstream}' timed out`, {
+          upstream: route.upstream,
+          timeoutMs,
+        })
+      );
+    });
+
+    upstreamReq.on('error', (err: any) => {
+      fail(unavailable(), err);
+    });
+
+    upstreamReq.on('response', (upstreamRes) => {
+      const status = upstreamRes.statusCode || 502;
+
+      if (options.retryStatuses?.includes(status)) {
+        upstreamRes.on('error', (err) => fail(unavailable(), err));
+        upstreamRes.on('end', () => finish(status));
+        upstreamRes.resume();
+        return;
+      }
+
+      if (status >= 400) {
+        sendUpstreamError(res, route, upstreamRes, status, context).then(
+          () => finish(status),
+          (err) => fail(unavailable(), err)
+        );
+        return;
+      }
+
+      res.status(status);
+      const headers = endToEndHeaders(upstreamRes.headers);
+      transformResponseHeaders(headers, route.transform, context);
+      for (const [name, value] of Object.entries(headers)) {
+        res.setHeader(name, value as string | string[]);
+      }
+
+      upstreamRes.on('error', (err) => fail(unavailable(), err));
+      upstreamRes.on('end', () => finish(status));
+      // A wrapped body may end before the upstream does (e.g. a metered event stream)
+      res.once('finish', () => {
+        if (!upstreamRes.complete) upstreamReq.destroy();
+        finish(status);
+      });
+      (options.responseBody ? options.responseBody(upstreamRes) : upstreamRes).pipe(res);
+    });
+
+    // Retries forward the same response, so each attempt removes its listener when settled
+    res.once('close', onClientClose);
+
+    if (options.body) {
+      upstreamReq.end(options.body);
+    } else {
+      req.pipe(upstreamReq);
+    }
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * Proxy Transform Service
+ * Request and response rewriting for proxied routes:
+ * - the caller's credentials (`x-api-key`, `Authorization`, `?apiKey=`) never reach the
+ *   upstream; the caller's identity is sent as X-User-Id, X-Api-Key-Id and X-Plan instead
+ * - per-route rules: path rewrite and request/response headers to set or remove
+ * Header values and rewrite replacements are templates: `${userId}`, `${apiKeyId}`,
+ * `${plan}`, `${requestId}`, `${route}`, `${method}`, `${path}`, `${clientIp}` come from
+ * the authenticated request, `${env.NAME}` from the environment (upstream credentials).
+ */
+
+import type http from 'http';
+
+export interface HeaderRules {
+  setHeaders: Record<string, string>; // lowercase names
+  removeHeaders: string[]; // lowercase names
+}
+
+export interface ProxyTransform {
+  request: HeaderRules & {
+    rewrite?: { pattern: RegExp; replacement: string }; // applied after stripPrefix
+  };
+  response: HeaderRules;
+}
+
+export interface TransformContext {
+  userId?: string;
+  apiKeyId?: string;
+  plan?: string;
+  requestId?: string;
+  route: string;
+  method: string;
+  path: string;
+  clientIp?: string;
+}
+
+export const TEMPLATE_VARIABLES = [
+  'userId',
+  'apiKeyId',
+  'plan',
+  'requestId',
+  'route',
+  'method',
+  'path',
+  'clientIp',
+] as const;
+
+const TEMPLATE = /\$\{([\w.]+)\}/g;
+
+// Caller credentials accepted by apiKeyAuth
+const CREDENTIAL_HEADERS = ['x-api-key', 'authorization'];
+const CREDENTIAL_QUERY_PARAM = 'apiKey';
+
+/**
+ * Variables used in a template that are neither context variables nor set environment
+ * variables
+ */
+export function unknownTemplateVariables(template: string): string[] {
+  return [...template.matchAll(TEMPLATE)]
+    .map((match) => match[1])
+    .filter((name) =>
+      name.startsWith('env.')
+        ? process.env[name.slice(4)] === undefined
+        : !(TEMPLATE_VARIABLES as readonly string[]).includes(name)
+    );
+}
+
+export function renderTemplate(template: string, context: TransformContext): string {
+  return template.replace(TEMPLATE, (_match, name: string) => {
+    if (name.startsWith('env.')) {
+      return process.env[name.slice(4)] ?? '';
+    }
+    return String(context[name as keyof TransformContext] ?? '');
+  });
+}
+
+/**
+ * Forwarded path after the route's rewrite rule
+ */
+export function rewritePath(
+  transform: ProxyTransform | undefined,
+  path: string,
+  context: TransformContext
+): string {
+  const rewrite = transform?.request.rewrite;
+  if (!rewrite) return path;
+
+  const rewritten = path.replace(rewrite.pattern, renderTemplate(rewrite.replacement, context));
+  return rewritten.startsWith('/') ? rewritten : `/${rewritten}`;
+}
+
+/**
+ * Drop the caller's `?apiKey=` credential from an upstream URL
+ */
+export function stripCredentialQuery(url: URL): void {
+  if (url.searchParams.has(CREDENTIAL_QUERY_PARAM)) {
+    url.searchParams.delete(CREDENTIAL_QUERY_PARAM);
+  }
+}
+
+function applyHeaderRules(
+  headers: http.OutgoingHttpHeaders,
+  rules: HeaderRules | undefined,
+  context: TransformContext
+): void {
+  for (const name of rules?.removeHeaders || []) {
+    delete headers[name];
+  }
+  for (const [name, template] of Object.entries(rules?.setHeaders || {})) {
+    headers[name] = renderTemplate(template, context);
+  }
+}
+
+/**
+ * Replace the caller's credentials with its identity, then apply the route's request rules
+ */
+export function transformRequestHeaders(
+  headers: http.OutgoingHttpHeaders,
+  transform: ProxyTransform | undefined,
+  context: TransformContext
+): void {
+  for (const name of CREDENTIAL_HEADERS) {
+    delete headers[name];
+  }
+
+  // Always overwritten, so callers can't pass their own
+  const identity: Record<string, string | undefined> = {
+    'x-user-id': context.userId,
+    'x-api-key-id': context.apiKeyId,
+    'x-plan': context.plan,
+  };
+  for (const [name, value] of Object.entries(identity)) {
+    if (value) {
+      headers[name] = value;
+    } else {
+      delete headers[name];
+    }
+  }
+
+  applyHeaderRules(headers, transform?.request, context);
+}
+
+/**
+ * Apply the route's response rules to the upstream's headers
+ */
+export function transformResponseHeaders(
+  headers: http.OutgoingHttpHeaders,
+  transform: ProxyTransform | undefined,
+  context: TransformContext
+): void {
+  applyHeaderRules(headers, transform?.response, context);
+}
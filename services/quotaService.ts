@@ -0,0 +1,330 @@
+/**
+ * Quota Service
+ * Monthly (billing-cycle) quotas per API key. Cycles are calendar months in UTC.
+ * Live consumption is kept in a Redis hash per key and cycle (`rlq:{apiKeyId}:{cycleStart}`,
+ * fields `used` and `overage`) and flushed to the `QuotaUsage` table in the background.
+ * A missing hash (first request of a cycle, Redis restart) is seeded from `QuotaUsage`.
+ * Postgres is used directly only while Redis is unavailable.
+ */
+
+import { prisma } from '../prisma.ts';
+import redis, { isRedisReady } from '../utils/redis.ts';
+import logger from '../utils/logger.ts';
+import { defineScript, runScript } from '../utils/redisScripts.ts';
+
+export interface PlanQuota {
+  monthlyQuota: number; // hard cap per cycle (0 = no quota)
+  monthlySoftLimit: number; // warning threshold (0 = no warning)
+  allowOverage: boolean; // past the hard cap: record overage instead of rejecting
+}
+
+export interface QuotaStatus {
+  isAllowed: boolean;
+  quota: number;
+  used: number;
+  remaining: number;
+  overage: number;
+  softLimit: number;
+  softLimitReached: boolean;
+  overageAllowed: boolean;
+  cycleStart: Date;
+  cycleEnd: Date;
+}
+
+// Keep a cycle's hash a day past the cycle end so late reads still see it
+const CYCLE_GRACE_MS = 86_400_000;
+
+/**
+ * Billing cycle containing `now`: [start of the UTC month, start of the next)
+ */
+export function getCycleBounds(now: number = Date.now()): { start: Date; end: Date } {
+  const date = new Date(now);
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Check the hard cap and record usage.
+ * KEYS[1] cycle hash; ARGV: quota, allowOverage (0/1), weight, ttlMs
+ * Returns {allowed, used, overage, overageAdded}; allowed is -1 when the hash needs seeding.
+ */
+const CONSUME_QUOTA = defineScript(`
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return {-1, 0, 0, 0}
+end
+
+local quota = tonumber(ARGV[1])
+local allowOverage = tonumber(ARGV[2])
+local weight = tonumber(ARGV[3])
+
+local used = tonumber(redis.call('HGET', KEYS[1], 'used') or '0')
+local overage = tonumber(redis.call('HGET', KEYS[1], 'overage') or '0')
+local overageAdded = 0
+
+if used + weight > quota then
+  if allowOverage == 0 then
+    return {0, used, overage, 0}
+  end
+  -- Only the units past the cap count as overage
+  overageAdded = math.min(weight, used + weight - quota)
+  overage = redis.call('HINCRBY', KEYS[1], 'overage', overageAdded)
+end
+
+used = redis.call('HINCRBY', KEYS[1], 'used', weight)
+redis.call('PEXPIRE', KEYS[1], ARGV[4])
+return {1, used, overage, overageAdded}
+`);
+
+/**
+ * Initialise a cycle hash unless another request beat us to it.
+ * KEYS[1] cycle hash; ARGV: used, overage, ttlMs
+ */
+const SEED_QUOTA = defineScript(`
+redis.call('HSETNX', KEYS[1], 'used', ARGV[1])
+redis.call('HSETNX', KEYS[1], 'overage', ARGV[2])
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return 1
+`);
+
+function quotaKey(apiKeyId: string, cycleStart: Date): string {
+  return `rlq:${apiKeyId}:${cycleStart.getTime()}`;
+}
+
+function buildStatus(
+  quota: PlanQuota,
+  cycle: { start: Date; end: Date },
+  isAllowed: boolean,
+  used: number,
+  overage: number
+): QuotaStatus {
+  return {
+    isAllowed,
+    quota: quota.monthlyQuota,
+    used,
+    remaining: Math.max(0, quota.monthlyQuota - used),
+    overage,
+    softLimit: quota.monthlySoftLimit,
+    softLimitReached: quota.monthlySoftLimit > 0 && used >= quota.monthlySoftLimit,
+    overageAllowed: quota.allowOverage,
+    cycleStart: cycle.start,
+    cycleEnd: cycle.end,
+  };
+}
+
+/**
+ * Persisted consumption for a cycle (zero when nothing was recorded yet)
+ */
+async function readQuotaUsageDb(
+  apiKeyId: string,
+  cycleStart: Date
+): Promise<{ used: number; overage: number }> {
+  const row = await prisma.quotaUsage.findUnique({
+    where: { apiKeyId_cycleStart: { apiKeyId, cycleStart } },
+  });
+  return { used: row?.requestCount ?? 0, overage: row?.overageCount ?? 0 };
+}
+
+async function incrementQuotaUsageDb(
+  apiKeyId: string,
+  cycleStart: Date,
+  used: number,
+  overage: number
+): Promise<void> {
+  await prisma.quotaUsage.upsert({
+    where: { apiKeyId_cycleStart: { apiKeyId, cycleStart } },
+    create: { apiKeyId, cycleStart, requestCount: used, overageCount: overage },
+    update: {
+      requestCount: { increment: used },
+      overageCount: { increment: overage },
+    },
+  });
+}
+
+/**
+ * Consumption recorded through Redis, aggregated per (apiKey, cycle) until flushed
+ */
+const pendingQuotaUsage = new Map<
+  string,
+  { apiKeyId: string; cycleStart: Date; used: number; overage: number }
+>();
+
+function queueQuotaUsage(apiKeyId: string, cycleStart: Date, used: number, overage: number): void {
+  const key = quotaKey(apiKeyId, cycleStart);
+  const entry = pendingQuotaUsage.get(key);
+  if (entry) {
+    entry.used += used;
+    entry.overage += overage;
+  } else {
+    pendingQuotaUsage.set(key, { apiKeyId, cycleStart, used, overage });
+  }
+}
+
+// Flushes hold this while usage moves from the queue to `QuotaUsage`, so reads of the two
+// in between (seeding a cycle hash) wait instead of missing it
+let quotaUsageLock: Promise<unknown> = Promise.resolve();
+
+function withQuotaUsageLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = quotaUsageLock.then(fn, fn);
+  quotaUsageLock = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Persisted plus queued consumption for a cycle
+ */
+function readQuotaUsageTotal(
+  apiKeyId: string,
+  cycleStart: Date
+): Promise<{ used: number; overage: number }> {
+  return withQuotaUsageLock(async () => {
+    const persisted = await readQuotaUsageDb(apiKeyId, cycleStart);
+    const pending = pendingQuotaUsage.get(quotaKey(apiKeyId, cycleStart));
+    return {
+      used: persisted.used + (pending?.used ?? 0),
+      overage: persisted.overage + (pending?.overage ?? 0),
+    };
+  });
+}
+
+/**
+ * Write aggregated consumption into the `QuotaUsage` table.
+ * Entries that fail to persist are re-queued for the next flush.
+ */
+export function flushQuotaUsage(): Promise<void> {
+  return withQuotaUsageLock(async () => {
+    if (pendingQuotaUsage.size === 0) {
+      return;
+    }
+
+    const entries = [...pendingQuotaUsage.values()];
+    pendingQuotaUsage.clear();
+
+    for (const entry of entries) {
+      try {
+        await incrementQuotaUsageDb(entry.apiKeyId, entry.cycleStart, entry.used, entry.overage);
+      } catch (err: any) {
+        logger.warn('Quota usage flush failed, re-queueing', {
+          apiKeyId: entry.apiKeyId,
+          cycleStart: entry.cycleStart,
+          error: err && (err.message || err),
+        });
+        queueQuotaUsage(entry.apiKeyId, entry.cycleStart, entry.used, entry.overage);
+      }
+    }
+  });
+}
+
+async function consumeQuotaRedis(
+  apiKeyId: string,
+  quota: PlanQuota,
+  weight: number,
+  cycle: { start: Date; end: Date }
+): Promise<QuotaStatus> {
+  const key = quotaKey(apiKeyId, cycle.start);
+  const ttlMs = cycle.end.getTime() - Date.now() + CYCLE_GRACE_MS;
+  const args = [quota.monthlyQuota, quota.allowOverage ? 1 : 0, weight, ttlMs];
+
+  let result = (await runScript(CONSUME_QUOTA, [key], args)) as number[];
+  if (result[0] === -1) {
+    // Include consumption that is still waiting to be flushed
+    const seed = await readQuotaUsageTotal(apiKeyId, cycle.start);
+    await runScript(SEED_QUOTA, [key], [seed.used, seed.overage, ttlMs]);
+    result = (await runScript(CONSUME_QUOTA, [key], args)) as number[];
+  }
+
+  const [allowed, used, overage, overageAdded] = result;
+  if (allowed === 1) {
+    queueQuotaUsage(apiKeyId, cycle.start, weight, overageAdded);
+  }
+  return buildStatus(quota, cycle, allowed === 1, used, overage);
+}
+
+/**
+ * Postgres fallback: check then increment (not atomic across replicas)
+ */
+async function consumeQuotaDb(
+  apiKeyId: string,
+  quota: PlanQuota,
+  weight: number,
+  cycle: { start: Date; end: Date }
+): Promise<QuotaStatus> {
+  const { used, overage } = await readQuotaUsageDb(apiKeyId, cycle.start);
+
+  let overageAdded = 0;
+  if (used + weight > quota.monthlyQuota) {
+    if (!quota.allowOverage) {
+      return buildStatus(quota, cycle, false, used, overage);
+    }
+    overageAdded = Math.min(weight, used + weight - quota.monthlyQuota);
+  }
+
+  await incrementQuotaUsageDb(apiKeyId, cycle.start, weight, overageAdded);
+  return buildStatus(quota, cycle, true, used + weight, overage + overageAdded);
+}
+
+/**
+ * Check the key's monthly quota and record the request against it.
+ * Returns null when the plan has no quota.
+ */
+export async function consumeQuota(
+  apiKeyId: string,
+  quota: PlanQuota,
+  weight: number = 1
+): Promise<QuotaStatus | null> {
+  if (quota.monthlyQuota <= 0) {
+    return null;
+  }
+
+  const cycle = getCycleBounds();
+  if (isRedisReady()) {
+    try {
+      return await consumeQuotaRedis(apiKeyId, quota, weight, cycle);
+    } catch (err: any) {
+      logger.warn('Redis quota check failed, falling back to Postgres', {
+        error: err && (err.message || err),
+      });
+    }
+  }
+
+  return consumeQuotaDb(apiKeyId, quota, weight, cycle);
+}
+
+/**
+ * Current cycle's consumption without recording anything
+ */
+export async function getQuotaUsage(apiKeyId: string, quota: PlanQuota): Promise<QuotaStatus> {
+  const cycle = getCycleBounds();
+  const key = quotaKey(apiKeyId, cycle.start);
+
+  if (isRedisReady()) {
+    try {
+      const stored = await redis.hmget(key, 'used', 'overage');
+      if (stored[0] !== null) {
+        const used = Number(stored[0]);
+        const overage = Number(stored[1] ?? 0);
+        return buildStatus(
+          quota,
+          cycle,
+          quota.monthlyQuota <= 0 || used < quota.monthlyQuota || quota.allowOverage,
+          used,
+          overage
+        );
+      }
+    } catch (err: any) {
+      logger.warn('Redis quota read failed, falling back to Postgres', {
+        error: err && (err.message || err),
+      });
+    }
+  }
+
+  const { used, overage } = await readQuotaUsageTotal(apiKeyId, cycle.start);
+  return buildStatus(
+    quota,
+    cycle,
+    quota.monthlyQuota <= 0 || used < quota.monthlyQuota || quota.allowOverage,
+    used,
+    overage
+  );
+}
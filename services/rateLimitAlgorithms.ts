@@ -0,0 +1,412 @@
+/**
+ * Rate Limiting Algorithms
+ * Redis-backed implementations selectable per limiter via `RateLimitConfig.algorithm`.
+ * Each algorithm is a Lua script, so the decision and the increment happen atomically
+ * inside Redis in a single round trip (exact across gateway replicas).
+ */
+
+import crypto from 'crypto';
+import { defineScript, runScript, type RedisScript } from '../utils/redisScripts.ts';
+
+export type RateLimitAlgorithm =
+  | 'sliding-window'
+  | 'fixed-window'
+  | 'token-bucket'
+  | 'gcra'
+  | 'sliding-log';
+
+export interface AlgorithmParams {
+  windowMs: number;
+  maxRequests: number;
+  weight: number;
+  refillRate?: number; // token bucket only: tokens per second (defaults to maxRequests per window)
+}
+
+export interface LimitDecision {
+  allowed: boolean;
+  limit: number;
+  used: number; // estimated units consumed in the current window (before this request)
+  remaining: number;
+  resetTime: number; // epoch ms
+  retryAfter: number; // seconds, 0 when allowed
+}
+
+/**
+ * All scripts reply with: { allowed, used, remaining, resetTime (epoch ms), retryAfterMs }.
+ * `used` is returned as a string because Redis truncates Lua numbers to integers.
+ * The last argument is the consume flag: with 0 the decision is computed but nothing is written.
+ */
+
+// KEYS[1] current bucket, KEYS[2] previous bucket
+// ARGV: now, windowMs, maxRequests, weight, bucketStart, consume
+const SLIDING_WINDOW = defineScript(`
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local weight = tonumber(ARGV[4])
+local bucketStart = tonumber(ARGV[5])
+local curr = tonumber(redis.call('GET', KEYS[1]) or '0')
+local prev = tonumber(redis.call('GET', KEYS[2]) or '0')
+local estimate = curr + prev * (1 - (now - bucketStart) / windowMs)
+local remaining = math.max(0, math.ceil(limit - (estimate + weight)))
+local reset = bucketStart + windowMs
+if estimate + weight > limit then
+  return {0, tostring(estimate), remaining, reset, reset - now}
+end
+if ARGV[6] == '1' then
+  redis.call('INCRBY', KEYS[1], weight)
+  -- keep the bucket alive for one more window so it can serve as the previous bucket
+  redis.call('PEXPIRE', KEYS[1], reset + windowMs - now)
+end
+return {1, tostring(estimate), remaining, reset, 0}
+`);
+
+// KEYS[1] window counter
+// ARGV: now, windowMs, maxRequests, weight, bucketStart, consume
+const FIXED_WINDOW = defineScript(`
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local weight = tonumber(ARGV[4])
+local reset = tonumber(ARGV[5]) + windowMs
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+if count + weight > limit then
+  return {0, tostring(count), math.max(0, limit - count), reset, reset - now}
+end
+if ARGV[6] == '1' then
+  redis.call('INCRBY', KEYS[1], weight)
+  redis.call('PEXPIRE', KEYS[1], reset - now)
+end
+return {1, tostring(count), math.max(0, limit - count - weight), reset, 0}
+`);
+
+// KEYS[1] bucket hash (tokens, ts)
+// ARGV: now, capacity, refill rate (tokens per ms), weight, consume
+const TOKEN_BUCKET = defineScript(`
+local now = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local rate = tonumber(ARGV[3])
+local weight = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local used = capacity - tokens
+if tokens < weight then
+  return {0, tostring(used), math.floor(tokens), now + math.ceil(used / rate), math.ceil((weight - tokens) / rate)}
+end
+tokens = tokens - weight
+local msUntilFull = math.ceil((capacity - tokens) / rate)
+if ARGV[5] == '1' then
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+  redis.call('PEXPIRE', KEYS[1], math.max(1, msUntilFull))
+end
+return {1, tostring(used), math.floor(tokens), now + msUntilFull, 0}
+`);
+
+// KEYS[1] theoretical arrival time
+// ARGV: now, windowMs, emission interval (ms), weight, consume
+const GCRA = defineScript(`
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local interval = tonumber(ARGV[3])
+local weight = tonumber(ARGV[4])
+local tat = math.max(tonumber(redis.call('GET', KEYS[1]) or now), now)
+local used = (tat - now) / interval
+local newTat = tat + weight * interval
+local allowAt = newTat - windowMs
+if now < allowAt then
+  return {0, tostring(used), math.max(0, math.floor((windowMs - (tat - now)) / interval)), math.ceil(tat), math.ceil(allowAt - now)}
+end
+if ARGV[5] == '1' then
+  redis.call('SET', KEYS[1], tostring(newTat), 'PX', math.max(1, math.ceil(newTat - now)))
+end
+return {1, tostring(used), math.max(0, math.floor((windowMs - (newTat - now)) / interval)), math.ceil(newTat), 0}
+`);
+
+// KEYS[1] log (sorted set scored by timestamp)
+// ARGV: now, windowMs, maxRequests, weight, member nonce, consume
+const SLIDING_LOG = defineScript(`
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local weight = tonumber(ARGV[4])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - windowMs)
+local count = redis.call('ZCARD', KEYS[1])
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local oldestTs = oldest[2] and tonumber(oldest[2]) or now
+if count + weight > limit then
+  -- wait until enough entries age out of the window to fit this request
+  local overflow = count + weight - limit
+  local entry = redis.call('ZRANGE', KEYS[1], overflow - 1, overflow - 1, 'WITHSCORES')
+  local freeAt = (entry[2] and tonumber(entry[2]) or now) + windowMs
+  return {0, tostring(count), math.max(0, limit - count), oldestTs + windowMs, freeAt - now}
+end
+if ARGV[6] == '1' then
+  for i = 1, weight do
+    redis.call('ZADD', KEYS[1], now, ARGV[5] .. ':' .. i)
+  end
+  redis.call('PEXPIRE', KEYS[1], windowMs)
+end
+return {1, tostring(count), math.max(0, limit - count - weight), oldestTs + windowMs, 0}
+`);
+
+interface ScriptCall {
+  script: RedisScript;
+  keys: string[];
+  args: Array<string | number>;
+}
+
+/**
+ * Build the script invocation for each algorithm.
+ * Key layouts:
+ * - sliding-window: `rl:{identifier}:{bucketStart}` (two-bucket weighted approximation)
+ * - fixed-window:   `rl:fw:{identifier}:{bucketStart}`
+ * - token-bucket:   `rl:tb:{identifier}` (capacity `maxRequests`, refilled at `refillRate`/s)
+ * - gcra:           `rl:gcra:{identifier}` (emission interval `windowMs / maxRequests`)
+ * - sliding-log:    `rl:log:{identifier}` (exact; one entry per unit, for low-volume limits)
+ */
+const algorithms: Record<
+  RateLimitAlgorithm,
+  (identifier: string, params: AlgorithmParams, now: number, consume: number) => ScriptCall
+> = {
+  'sliding-window': (identifier, { windowMs, maxRequests, weight }, now, consume) => {
+    const bucketStart = Math.floor(now / windowMs) * windowMs;
+    return {
+      script: SLIDING_WINDOW,
+      keys: [`rl:${identifier}:${bucketStart}`, `rl:${identifier}:${bucketStart - windowMs}`],
+      args: [now, windowMs, maxRequests, weight, bucketStart, consume],
+    };
+  },
+  'fixed-window': (identifier, { windowMs, maxRequests, weight }, now, consume) => {
+    const bucketStart = Math.floor(now / windowMs) * windowMs;
+    return {
+      script: FIXED_WINDOW,
+      keys: [`rl:fw:${identifier}:${bucketStart}`],
+      args: [now, windowMs, maxRequests, weight, bucketStart, consume],
+    };
+  },
+  'token-bucket': (identifier, { windowMs, maxRequests, weight, refillRate }, now, consume) => ({
+    script: TOKEN_BUCKET,
+    keys: [`rl:tb:${identifier}`],
+    args: [
+      now,
+      maxRequests,
+      (refillRate ?? maxRequests / (windowMs / 1000)) / 1000,
+      weight,
+      consume,
+    ],
+  }),
+  gcra: (identifier, { windowMs, maxRequests, weight }, now, consume) => ({
+    script: GCRA,
+    keys: [`rl:gcra:${identifier}`],
+    args: [now, windowMs, windowMs / maxRequests, weight, consume],
+  }),
+  'sliding-log': (identifier, { windowMs, maxRequests, weight }, now, consume) => ({
+    script: SLIDING_LOG,
+    keys: [`rl:log:${identifier}`],
+    args: [
+      now,
+      windowMs,
+      maxRequests,
+      weight,
+      `${now}:${crypto.randomBytes(6).toString('hex')}`,
+      consume,
+    ],
+  }),
+};
+
+/**
+ * Evaluate (and, when allowed, consume) a limit for an identifier using the given algorithm.
+ * With `consume = false` the decision for `weight` is computed without recording anything.
+ */
+export async function evaluateLimit(
+  algorithm: RateLimitAlgorithm,
+  identifier: string,
+  params: AlgorithmParams,
+  consume: boolean = true
+): Promise<LimitDecision> {
+  const build = algorithms[algorithm];
+  if (!build) {
+    throw new Error(`Unknown rate limit algorithm: ${algorithm}`);
+  }
+
+  const { script, keys, args } = build(identifier, params, Date.now(), consume ? 1 : 0);
+  const [allowed, used, remaining, resetTime, retryAfterMs] = (await runScript(
+    script,
+    keys,
+    args
+  )) as [number, string, number, number, number];
+
+  return {
+    allowed: allowed === 1,
+    limit: params.maxRequests,
+    used: Number(used),
+    remaining,
+    resetTime,
+    retryAfter: allowed === 1 ? 0 : Math.max(1, Math.ceil(retryAfterMs / 1000)),
+  };
+}
+
+/**
+ * Current state of a limit without consuming from it
+ */
+export function peekLimit(
+  algorithm: RateLimitAlgorithm,
+  identifier: string,
+  params: Omit<AlgorithmParams, 'weight'>
+): Promise<LimitDecision> {
+  return evaluateLimit(algorithm, identifier, { ...params, weight: 0 }, false);
+}
+
+// Several sliding windows, and optionally a token bucket, checked (and consumed) together,
+// all-or-nothing.
+// KEYS: (current bucket, previous bucket) per window, then the token bucket hash if any
+// ARGV: now, weight, consume (1/0), bucket capacity (0 = no bucket), bucket refill rate
+//       (tokens per ms), then (windowMs, limit, bucketStart) per window
+const MULTI_WINDOW = defineScript(`
+local now = tonumber(ARGV[1])
+local weight = tonumber(ARGV[2])
+local consume = ARGV[3] == '1'
+local capacity = tonumber(ARGV[4])
+local rate = tonumber(ARGV[5])
+local n = math.floor(#KEYS / 2)
+local windows = {}
+local allowed = 1
+for i = 1, n do
+  local windowMs = tonumber(ARGV[3 * i + 3])
+  local limit = tonumber(ARGV[3 * i + 4])
+  local bucketStart = tonumber(ARGV[3 * i + 5])
+  local curr = tonumber(redis.call('GET', KEYS[2 * i - 1]) or '0')
+  local prev = tonumber(redis.call('GET', KEYS[2 * i]) or '0')
+  local estimate = curr + prev * (1 - (now - bucketStart) / windowMs)
+  local ok = 1
+  if estimate + weight > limit then
+    ok = 0
+    allowed = 0
+  end
+  windows[i] = {ok, tostring(estimate), windowMs, bucketStart}
+end
+local bucket
+local tokens = 0
+if capacity > 0 then
+  local state = redis.call('HMGET', KEYS[#KEYS], 'tokens', 'ts')
+  tokens = tonumber(state[1]) or capacity
+  local ts = tonumber(state[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+  if tokens < weight then
+    allowed = 0
+    bucket = {0, tostring(capacity - tokens), math.ceil((weight - tokens) / rate)}
+  else
+    bucket = {1, tostring(capacity - tokens), 0}
+  end
+end
+if allowed == 1 and consume then
+  for i = 1, n do
+    redis.call('INCRBY', KEYS[2 * i - 1], weight)
+    redis.call('PEXPIRE', KEYS[2 * i - 1], windows[i][4] + 2 * windows[i][3] - now)
+  end
+  if bucket then
+    tokens = tokens - weight
+    redis.call('HSET', KEYS[#KEYS], 'tokens', tostring(tokens), 'ts', tostring(now))
+    redis.call('PEXPIRE', KEYS[#KEYS], math.max(1, math.ceil((capacity - tokens) / rate)))
+  end
+end
+return {allowed, windows, bucket}
+`);
+
+export interface WindowSpec {
+  key: string; // base key, the bucket start is appended
+  windowMs: number;
+  limit: number;
+}
+
+/**
+ * Token bucket checked together with the windows, with the layout of the token-bucket
+ * algorithm (`rl:tb:{identifier}`): `maxRequests` tokens, refilled at that many per `windowMs`
+ */
+export interface BucketSpec {
+  identifier: string;
+  windowMs: number;
+  maxRequests: number;
+}
+
+export interface MultiWindowDecision {
+  allowed: boolean;
+  windows: LimitDecision[]; // same order as the specs
+  bucket?: LimitDecision; // when a bucket was given
+}
+
+/**
+ * Evaluate several sliding windows, and optionally a token bucket such as a burst cap, for
+ * one request in a single atomic script. When `consume` is set and every window and the
+ * bucket allow the request, all of them are charged; otherwise nothing is written (use
+ * `consume = false` to peek).
+ */
+export async function evaluateWindows(
+  specs: WindowSpec[],
+  weight: number,
+  consume: boolean = true,
+  bucket?: BucketSpec
+): Promise<MultiWindowDecision> {
+  if (specs.length === 0 && !bucket) {
+    return { allowed: true, windows: [] };
+  }
+
+  const now = Date.now();
+  const rate = bucket ? bucket.maxRequests / bucket.windowMs : 0;
+  const keys: string[] = [];
+  const args: Array<string | number> = [
+    now,
+    weight,
+    consume ? 1 : 0,
+    bucket ? bucket.maxRequests : 0,
+    rate,
+  ];
+  for (const spec of specs) {
+    const bucketStart = Math.floor(now / spec.windowMs) * spec.windowMs;
+    keys.push(`${spec.key}:${bucketStart}`, `${spec.key}:${bucketStart - spec.windowMs}`);
+    args.push(spec.windowMs, spec.limit, bucketStart);
+  }
+  if (bucket) {
+    keys.push(`rl:tb:${bucket.identifier}`);
+  }
+
+  const [allowed, windows, bucketResult] = (await runScript(MULTI_WINDOW, keys, args)) as [
+    number,
+    Array<[number, string, number, number]>,
+    [number, string, number]?,
+  ];
+  const consumed = allowed === 1 && consume;
+  const charged = consumed ? weight : 0;
+
+  const decision: MultiWindowDecision = {
+    allowed: allowed === 1,
+    windows: windows.map(([ok, used, windowMs, bucketStart], i) => {
+      const limit = specs[i].limit;
+      const resetTime = bucketStart + windowMs;
+      return {
+        allowed: ok === 1,
+        limit,
+        used: Number(used),
+        remaining: Math.max(0, Math.ceil(limit - Number(used) - charged)),
+        resetTime,
+        retryAfter: ok === 1 ? 0 : Math.max(1, Math.ceil((resetTime - now) / 1000)),
+      };
+    }),
+  };
+
+  if (bucket && bucketResult) {
+    const [ok, used, retryAfterMs] = bucketResult;
+    const empty = Number(used) + charged;
+    decision.bucket = {
+      allowed: ok === 1,
+      limit: bucket.maxRequests,
+      used: Number(used),
+      remaining: Math.max(0, Math.floor(bucket.maxRequests - empty)),
+      resetTime: now + Math.ceil(empty / rate),
+      retryAfter: ok === 1 ? 0 : Math.max(1, Math.ceil(retryAfterMs / 1000)),
+    };
+  }
+  return decision;
+}
@@ -0,0 +1,276 @@
+/**
+ * Rate Limit Failover
+ * What limiters do when Redis is unavailable, per limiter:
+ * - open:     let the request through unchecked
+ * - closed:   reject with 503 + Retry-After
+ * - fallback: switch to an in-process approximate limiter whose limits are divided by the
+ *             expected replica count (RATE_LIMIT_EXPECTED_REPLICAS). It is a sliding window
+ *             whatever the limiter's algorithm (see evaluateLimitInMemory).
+ * Switching is automatic: every check goes back to Redis as soon as it is ready again.
+ */
+
+import { isRedisReady } from '../utils/redis.ts';
+import logger from '../utils/logger.ts';
+import { ServiceUnavailableError } from '../utils/errors.ts';
+import type {
+  AlgorithmParams,
+  BucketSpec,
+  LimitDecision,
+  MultiWindowDecision,
+  WindowSpec,
+} from './rateLimitAlgorithms.ts';
+import type { ConcurrencyLease } from './concurrencyService.ts';
+
+export type FailureMode = 'open' | 'closed' | 'fallback';
+
+const DEFAULT_FAILURE_MODE: FailureMode =
+  process.env.RATE_LIMIT_FAILURE_MODE === 'open' ||
+  process.env.RATE_LIMIT_FAILURE_MODE === 'fallback'
+    ? process.env.RATE_LIMIT_FAILURE_MODE
+    : 'closed';
+
+const EXPECTED_REPLICAS = Math.max(1, Number(process.env.RATE_LIMIT_EXPECTED_REPLICAS) || 1);
+
+// Suggested retry delay for fail-closed rejections
+const FAIL_CLOSED_RETRY_AFTER = 5;
+
+const stats = {
+  degradedSince: null as Date | null,
+  lastError: null as string | null,
+  failOpen: 0,
+  failClosed: 0,
+  fallback: 0,
+};
+
+export function getDefaultFailureMode(): FailureMode {
+  return DEFAULT_FAILURE_MODE;
+}
+
+function markDegraded(err?: any): void {
+  if (err) {
+    stats.lastError = err.message || String(err);
+  }
+  if (!stats.degradedSince) {
+    stats.degradedSince = new Date();
+    logger.warn('Redis unavailable, rate limiters switched to their failure policies', {
+      error: stats.lastError,
+    });
+  }
+}
+
+function markRecovered(): void {
+  if (stats.degradedSince) {
+    logger.info('Redis available again, rate limiters back on Redis', {
+      degradedForMs: Date.now() - stats.degradedSince.getTime(),
+    });
+    stats.degradedSince = null;
+  }
+}
+
+/**
+ * In-process two-bucket sliding window, used only while Redis is unavailable.
+ * Approximate by design: each replica counts on its own against limit / replicas.
+ */
+const memoryBuckets = new Map<string, { count: number; expiresAt: number }>();
+
+function localLimit(limit: number): number {
+  return Math.max(1, Math.floor(limit / EXPECTED_REPLICAS));
+}
+
+function evaluateMemoryWindow(
+  key: string,
+  windowMs: number,
+  maxRequests: number,
+  weight: number,
+  now: number
+): LimitDecision {
+  const limit = localLimit(maxRequests);
+  const bucketStart = Math.floor(now / windowMs) * windowMs;
+  const curr = memoryBuckets.get(`${key}:${bucketStart}`)?.count ?? 0;
+  const prev = memoryBuckets.get(`${key}:${bucketStart - windowMs}`)?.count ?? 0;
+  const used = curr + prev * (1 - (now - bucketStart) / windowMs);
+  const resetTime = bucketStart + windowMs;
+  const allowed = used + weight <= limit;
+
+  return {
+    allowed,
+    limit,
+    used,
+    remaining: Math.max(0, Math.ceil(limit - used - (allowed ? weight : 0))),
+    resetTime,
+    retryAfter: allowed ? 0 : Math.max(1, Math.ceil((resetTime - now) / 1000)),
+  };
+}
+
+function incrementMemoryWindow(key: string, windowMs: number, weight: number, now: number): void {
+  const bucketStart = Math.floor(now / windowMs) * windowMs;
+  const bucketKey = `${key}:${bucketStart}`;
+  const bucket = memoryBuckets.get(bucketKey);
+  if (bucket) {
+    bucket.count += weight;
+  } else {
+    memoryBuckets.set(bucketKey, { count: weight, expiresAt: bucketStart + 2 * windowMs });
+  }
+}
+
+/**
+ * Fallback for evaluateLimit. Every algorithm is approximated by the sliding window over
+ * its windowMs, so bursts are shaped differently than on Redis (e.g. a token bucket's
+ * refillRate is not applied) while the same number of requests per window gets through.
+ */
+export function evaluateLimitInMemory(
+  identifier: string,
+  params: AlgorithmParams,
+  consume: boolean = true
+): LimitDecision {
+  const now = Date.now();
+  const decision = evaluateMemoryWindow(
+    `rl:${identifier}`,
+    params.windowMs,
+    params.maxRequests,
+    params.weight,
+    now
+  );
+  if (decision.allowed && consume) {
+    incrementMemoryWindow(`rl:${identifier}`, params.windowMs, params.weight, now);
+  }
+  return decision;
+}
+
+export function evaluateWindowsInMemory(
+  specs: WindowSpec[],
+  weight: number,
+  consume: boolean = true,
+  bucket?: BucketSpec
+): MultiWindowDecision {
+  const now = Date.now();
+  const windows = specs.map((spec) =>
+    evaluateMemoryWindow(spec.key, spec.windowMs, spec.limit, weight, now)
+  );
+  // The bucket is approximated by a window of its refill period, like in evaluateLimitInMemory
+  const bucketDecision = bucket
+    ? evaluateMemoryWindow(
+        `rl:${bucket.identifier}`,
+        bucket.windowMs,
+        bucket.maxRequests,
+        weight,
+        now
+      )
+    : undefined;
+  const allowed = windows.every((window) => window.allowed) && (bucketDecision?.allowed ?? true);
+  if (allowed && consume) {
+    specs.forEach((spec) => incrementMemoryWindow(spec.key, spec.windowMs, weight, now));
+    if (bucket) {
+      incrementMemoryWindow(`rl:${bucket.identifier}`, bucket.windowMs, weight, now);
+    }
+  }
+
+  // As from Redis, remaining units deduct the weight only once it has been charged
+  const charged = allowed && consume ? weight : 0;
+  const report = (decision: LimitDecision): LimitDecision => ({
+    ...decision,
+    remaining: Math.max(0, Math.ceil(decision.limit - decision.used - charged)),
+  });
+  return {
+    allowed,
+    windows: windows.map(report),
+    bucket: bucketDecision && report(bucketDecision),
+  };
+}
+
+/**
+ * In-process in-flight counter, used only while Redis is unavailable
+ */
+const memoryInFlight = new Map<string, number>();
+
+export function acquireLeaseInMemory(key: string, maxConcurrent: number): ConcurrencyLease {
+  const limit = localLimit(maxConcurrent);
+  const active = memoryInFlight.get(key) ?? 0;
+  if (active >= limit) {
+    return { allowed: false, limit, active, release: async () => {} };
+  }
+
+  memoryInFlight.set(key, active + 1);
+  let released = false;
+  return {
+    allowed: true,
+    limit,
+    active: active + 1,
+    release: async () => {
+      if (released) return;
+      released = true;
+      const remaining = (memoryInFlight.get(key) ?? 1) - 1;
+      if (remaining > 0) {
+        memoryInFlight.set(key, remaining);
+      } else {
+        memoryInFlight.delete(key);
+      }
+    },
+  };
+}
+
+// Drop expired in-memory buckets
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, bucket] of memoryBuckets.entries()) {
+    if (bucket.expiresAt < now) {
+      memoryBuckets.delete(key);
+    }
+  }
+}, 60 * 1000).unref();
+
+/**
+ * Run a Redis-backed check, applying the limiter's failure policy when Redis is not ready
+ * or the call fails. Returns null when the request should pass unchecked (fail-open).
+ */
+export async function withRedisFailover<T>(
+  failureMode: FailureMode,
+  redisCheck: () => Promise<T>,
+  fallbackCheck: () => T
+): Promise<T | null> {
+  if (isRedisReady()) {
+    try {
+      const result = await redisCheck();
+      markRecovered();
+      return result;
+    } catch (err: any) {
+      // Limit decisions are AppErrors thrown by callers, never by the check itself
+      markDegraded(err);
+    }
+  } else {
+    markDegraded();
+  }
+
+  switch (failureMode) {
+    case 'open':
+      stats.failOpen++;
+      return null;
+    case 'fallback':
+      stats.fallback++;
+      return fallbackCheck();
+    case 'closed':
+    default:
+      stats.failClosed++;
+      throw new ServiceUnavailableError('Rate limiting is temporarily unavailable', {
+        retryAfter: FAIL_CLOSED_RETRY_AFTER,
+      });
+  }
+}
+
+/**
+ * Failover state for /health
+ */
+export function getFailoverStatus() {
+  return {
+    degraded: stats.degradedSince !== null,
+    degradedSince: stats.degradedSince,
+    lastError: stats.lastError,
+    defaultFailureMode: DEFAULT_FAILURE_MODE,
+    expectedReplicas: EXPECTED_REPLICAS,
+    decisions: {
+      failOpen: stats.failOpen,
+      failClosed: stats.failClosed,
+      fallback: stats.fallback,
+    },
+  };
+}
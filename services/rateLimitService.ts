@@ -1,9 +1,16 @@
 /**
  * Advanced Rate Limiting Service
- * Handles per-user, time-window based rate limiting with database persistence
+ * Handles per-user, time-window based rate limiting.
+ * Live counters are kept in Redis; aggregated counts are flushed to the `Usage` table in the
+ * background for reporting. Postgres is used directly only while Redis is unavailable.
  */
 
 import { prisma } from '../prisma.ts';
+import { isRedisReady } from '../utils/redis.ts';
+import logger from '../utils/logger.ts';
+import { evaluateWindows } from './rateLimitAlgorithms.ts';
+import { getPlanOverride } from './policyService.ts';
+import { flushQuotaUsage, type PlanQuota } from './quotaService.ts';
 
 export interface RateLimitConfig {
   requestsPerMinute?: number;
@@ -12,56 +19,407 @@ export interface RateLimitConfig {
   burstLimit?: number;
 }
 
+export type RateLimitConstraint = 'burst' | 'minute' | 'hour' | 'day';
+
+/**
+ * Level of a limit. A plan's limits always apply to each API key; at `user` scope they are
+ * also shared by all of a user's keys. Counters are kept at every level so a plan can switch
+ * scope at any time.
+ */
+export type LimitScope = 'key' | 'user';
+
 export interface RateLimitStatus {
   isAllowed: boolean;
   limit: number;
   remaining: number;
+  used?: number; // estimated units consumed in the window
   resetTime: Date;
   retryAfter?: number;
+  constraint?: RateLimitConstraint; // which limit the status describes (the one that tripped on rejection)
+  scope?: LimitScope; // level of that limit
+  windowMs?: number; // length of that limit's window
+  windows?: RateLimitStatus[]; // every limit checked for the request, for response headers
+}
+
+type Period = 'MINUTE' | 'HOUR' | 'DAY';
+
+const PERIOD_CONSTRAINT: Record<Period, RateLimitConstraint> = {
+  MINUTE: 'minute',
+  HOUR: 'hour',
+  DAY: 'day',
+};
+
+const PERIOD_MS: Record<Period, number> = {
+  MINUTE: 60_000,
+  HOUR: 3_600_000,
+  DAY: 86_400_000,
+};
+
+const PERIODS: Period[] = ['MINUTE', 'HOUR', 'DAY'];
+
+interface PlanLimits {
+  MINUTE: number;
+  HOUR: number;
+  DAY: number;
+  burst: number;
+  maxConcurrent: number; // 0 = unlimited
+  maxStreams: number; // 0 = unlimited
+  streamMessagesPerSecond: number; // 0 = unlimited
+  quota: PlanQuota;
+  scope: LimitScope;
+}
+
+interface LimitLevel {
+  scope: LimitScope;
+  prefix: string; // counter key prefix
+  enforced: boolean; // whether the plan's limits apply at this level
+}
+
+/**
+ * Get the bucket start (epoch ms) for a given period
+ */
+function getBucketStart(period: Period, now: number = Date.now()): number {
+  return Math.floor(now / PERIOD_MS[period]) * PERIOD_MS[period];
 }
 
 /**
- * Get the bucket timestamp for a given period
+ * Plan lookups are cached briefly so the hot path doesn't hit Postgres on every request
  */
-function getBucketTimestamp(period: 'MINUTE' | 'HOUR' | 'DAY'): Date {
-  const now = new Date();
-  switch (period) {
-    case 'MINUTE':
-      now.setSeconds(0, 0);
-      return now;
-    case 'HOUR':
-      now.setMinutes(0, 0, 0);
-      return now;
-    case 'DAY':
-      now.setHours(0, 0, 0, 0);
-      return now;
+const PLAN_CACHE_TTL_MS = 30_000;
+const planCache = new Map<
+  string,
+  { planName: string; userId: string; limits: PlanLimits; expiresAt: number }
+>();
+
+/**
+ * Effective limits for an API key: its stored plan with any policy-file overrides applied,
+ * plus the owning user. Overrides are applied on read, so a policy reload takes effect immediately.
+ */
+async function getPlanContext(
+  apiKeyId: string
+): Promise<{ planName: string; userId: string; limits: PlanLimits }> {
+  let cached = planCache.get(apiKeyId);
+  if (!cached || cached.expiresAt <= Date.now()) {
+    // Get API key with rate plan
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { id: apiKeyId },
+      include: { plan: true },
+    });
+
+    if (!apiKey) {
+      throw new Error('API Key not found');
+    }
+
+    cached = {
+      planName: apiKey.plan.name,
+      userId: apiKey.userId,
+      limits: {
+        MINUTE: apiKey.plan.requestsPerMinute,
+        HOUR: apiKey.plan.requestsPerHour,
+        DAY: apiKey.plan.requestsPerDay,
+        burst: apiKey.plan.burstLimit,
+        maxConcurrent: apiKey.plan.maxConcurrent,
+        maxStreams: apiKey.plan.maxStreams,
+        streamMessagesPerSecond: apiKey.plan.streamMessagesPerSecond,
+        quota: {
+          monthlyQuota: apiKey.plan.monthlyQuota,
+          monthlySoftLimit: apiKey.plan.monthlySoftLimit,
+          allowOverage: apiKey.plan.allowOverage,
+        },
+        scope: apiKey.plan.limitScope === 'USER' ? 'user' : 'key',
+      },
+      expiresAt: Date.now() + PLAN_CACHE_TTL_MS,
+    };
+    planCache.set(apiKeyId, cached);
+  }
+
+  const override = getPlanOverride(cached.planName);
+  if (!override) {
+    return { planName: cached.planName, userId: cached.userId, limits: cached.limits };
   }
+
+  const limits: PlanLimits = {
+    MINUTE: override.requestsPerMinute ?? cached.limits.MINUTE,
+    HOUR: override.requestsPerHour ?? cached.limits.HOUR,
+    DAY: override.requestsPerDay ?? cached.limits.DAY,
+    burst: override.burstLimit ?? cached.limits.burst,
+    maxConcurrent: override.maxConcurrent ?? cached.limits.maxConcurrent,
+    maxStreams: override.maxStreams ?? cached.limits.maxStreams,
+    streamMessagesPerSecond:
+      override.streamMessagesPerSecond ?? cached.limits.streamMessagesPerSecond,
+    quota: {
+      monthlyQuota: override.monthlyQuota ?? cached.limits.quota.monthlyQuota,
+      monthlySoftLimit: override.monthlySoftLimit ?? cached.limits.quota.monthlySoftLimit,
+      allowOverage: override.allowOverage ?? cached.limits.quota.allowOverage,
+    },
+    scope: override.limitScope ?? cached.limits.scope,
+  };
+  return { planName: cached.planName, userId: cached.userId, limits };
+}
+
+async function getPlanLimits(apiKeyId: string): Promise<PlanLimits> {
+  return (await getPlanContext(apiKeyId)).limits;
+}
+
+/**
+ * Levels a request counts against, innermost first (organizations would slot in after users).
+ * A key is always held to its plan's limits; the user level enforces them too when the plan
+ * shares them across the user's keys. Key counters keep their original `rlp:{apiKeyId}` prefix.
+ */
+function getLimitLevels(apiKeyId: string, userId: string, scope: LimitScope): LimitLevel[] {
+  return [
+    { scope: 'key', prefix: `rlp:${apiKeyId}`, enforced: true },
+    { scope: 'user', prefix: `rlp:user:${userId}`, enforced: scope === 'user' },
+  ];
 }
 
 /**
- * Get the next reset time for a given period
+ * Combine per-period and per-level statuses: of the exceeded ones, the one that resets last
+ * is reported, otherwise the most restrictive remaining
  */
-function getResetTime(period: 'MINUTE' | 'HOUR' | 'DAY'): Date {
-  const bucket = getBucketTimestamp(period);
-  switch (period) {
-    case 'MINUTE':
-      bucket.setMinutes(bucket.getMinutes() + 1);
-      return bucket;
-    case 'HOUR':
-      bucket.setHours(bucket.getHours() + 1);
-      return bucket;
-    case 'DAY':
-      bucket.setDate(bucket.getDate() + 1);
-      return bucket;
+function combineStatuses(statuses: RateLimitStatus[]): RateLimitStatus {
+  let exceeded: RateLimitStatus | undefined;
+  for (const status of statuses) {
+    if (!status.isAllowed && (!exceeded || status.resetTime > exceeded.resetTime)) {
+      exceeded = status;
+    }
+  }
+  if (exceeded) {
+    return {
+      ...exceeded,
+      retryAfter: Math.max(1, Math.ceil((exceeded.resetTime.getTime() - Date.now()) / 1000)),
+      windows: statuses,
+    };
+  }
+
+  if (statuses.length === 0) {
+    return { isAllowed: true, limit: 0, remaining: 0, resetTime: new Date() };
   }
+
+  const mostRestrictive = [...statuses].sort((a, b) => a.remaining - b.remaining)[0];
+  return {
+    isAllowed: true,
+    limit: mostRestrictive.limit,
+    remaining: mostRestrictive.remaining,
+    resetTime: mostRestrictive.resetTime,
+    scope: mostRestrictive.scope,
+    windows: statuses,
+  };
 }
 
 /**
- * Check rate limit for a given API key and period
+ * Check (and optionally consume) all plan windows at every level, and the plan's burst cap,
+ * in one atomic Redis script: a request rejected by any of them is charged to none.
+ * Levels the plan is not enforced at are still counted (with no limit) when consuming.
+ * Burst control is a token bucket holding `burstLimit` tokens, refilled at `burstLimit` per
+ * second, capping short spikes that the minute/hour/day windows would otherwise let through.
+ * Keys: `rlp:{apiKeyId}:{PERIOD}:{bucketStart}`, `rlp:user:{userId}:{PERIOD}:{bucketStart}`,
+ * `rl:tb:burst:{apiKeyId}` or `rl:tb:burst:user:{userId}`
  */
-async function checkPeriodLimit(
+async function evaluatePlanLimitsRedis(
   apiKeyId: string,
-  period: 'MINUTE' | 'HOUR' | 'DAY',
+  userId: string,
+  limits: PlanLimits,
+  consume: boolean
+): Promise<RateLimitStatus> {
+  const levels = getLimitLevels(apiKeyId, userId, limits.scope);
+  const windows = levels.flatMap((level) =>
+    PERIODS.map((period) => ({
+      level,
+      period,
+      // A limit of 0 means the period is not limited
+      checked: level.enforced && limits[period] > 0,
+    }))
+  );
+  const evaluated = consume ? windows : windows.filter((window) => window.checked);
+
+  const decision = await evaluateWindows(
+    evaluated.map(({ level, period, checked }) => ({
+      key: `${level.prefix}:${period}`,
+      windowMs: PERIOD_MS[period],
+      limit: checked ? limits[period] : Number.MAX_SAFE_INTEGER,
+    })),
+    1,
+    consume,
+    limits.burst > 0
+      ? {
+          identifier: limits.scope === 'user' ? `burst:user:${userId}` : `burst:${apiKeyId}`,
+          windowMs: 1000,
+          maxRequests: limits.burst,
+        }
+      : undefined
+  );
+
+  if (decision.allowed && consume) {
+    queueUsage(apiKeyId, Date.now());
+  }
+
+  const status = combineStatuses(
+    decision.windows
+      .map((window, i) => ({ window, ...evaluated[i] }))
+      .filter(({ checked }) => checked)
+      .map(({ window, level, period }) => ({
+        isAllowed: window.allowed,
+        limit: window.limit,
+        remaining: window.remaining,
+        used: window.used,
+        resetTime: new Date(window.resetTime),
+        constraint: PERIOD_CONSTRAINT[period],
+        scope: level.scope,
+        windowMs: PERIOD_MS[period],
+      }))
+  );
+  if (!decision.bucket) {
+    return status;
+  }
+
+  const burst: RateLimitStatus = {
+    isAllowed: decision.bucket.allowed,
+    limit: decision.bucket.limit,
+    remaining: decision.bucket.remaining,
+    used: decision.bucket.used,
+    resetTime: new Date(decision.bucket.resetTime),
+    retryAfter: decision.bucket.allowed ? undefined : decision.bucket.retryAfter,
+    constraint: 'burst',
+    scope: limits.scope,
+    windowMs: 1000,
+  };
+  const all = [burst, ...(status.windows || [])];
+  // The windows' status is reported unless only the burst cap was hit
+  return status.isAllowed && !burst.isAllowed
+    ? { ...burst, windows: all }
+    : { ...status, windows: all };
+}
+
+/**
+ * Increment the live Redis counters at every level without checking them
+ */
+async function incrementPlanWindowsRedis(apiKeyId: string, levels: LimitLevel[]): Promise<void> {
+  await evaluateWindows(
+    levels.flatMap((level) =>
+      PERIODS.map((period) => ({
+        key: `${level.prefix}:${period}`,
+        windowMs: PERIOD_MS[period],
+        limit: Number.MAX_SAFE_INTEGER,
+      }))
+    ),
+    1,
+    true
+  );
+  queueUsage(apiKeyId, Date.now());
+}
+
+/**
+ * Requests recorded through Redis, aggregated per (apiKey, period, bucket) until flushed
+ */
+const pendingUsage = new Map<
+  string,
+  { apiKeyId: string; period: Period; bucket: number; count: number }
+>();
+
+function queueUsage(apiKeyId: string, now: number, count: number = 1): void {
+  for (const period of PERIODS) {
+    const bucket = getBucketStart(period, now);
+    const key = `${apiKeyId}:${period}:${bucket}`;
+    const entry = pendingUsage.get(key);
+    if (entry) {
+      entry.count += count;
+    } else {
+      pendingUsage.set(key, { apiKeyId, period, bucket, count });
+    }
+  }
+}
+
+// Held while a flush writes, so flushes (the interval and the one on shutdown) never overlap:
+// two of them could both find no row for a bucket and each create one
+let usageFlushLock: Promise<void> = Promise.resolve();
+
+/**
+ * Write aggregated counts into the `Usage` table.
+ * Entries that fail to persist are re-queued for the next flush.
+ */
+export function flushUsage(): Promise<void> {
+  const run = usageFlushLock.then(async () => {
+    if (pendingUsage.size === 0) {
+      return;
+    }
+
+    const entries = [...pendingUsage.values()];
+    pendingUsage.clear();
+
+    for (const entry of entries) {
+      try {
+        const timestampBucket = new Date(entry.bucket);
+        const updated = await prisma.usage.updateMany({
+          where: { apiKeyId: entry.apiKeyId, peroid: entry.period, timestampBucket },
+          data: { requestCount: { increment: entry.count } },
+        });
+        if (updated.count === 0) {
+          await prisma.usage.create({
+            data: {
+              apiKeyId: entry.apiKeyId,
+              peroid: entry.period,
+              timestampBucket,
+              requestCount: entry.count,
+            },
+          });
+        }
+      } catch (err: any) {
+        logger.warn('Usage flush failed, re-queueing', {
+          apiKeyId: entry.apiKeyId,
+          period: entry.period,
+          error: err && (err.message || err),
+        });
+        const key = `${entry.apiKeyId}:${entry.period}:${entry.bucket}`;
+        const pending = pendingUsage.get(key);
+        if (pending) {
+          pending.count += entry.count;
+        } else {
+          pendingUsage.set(key, entry);
+        }
+      }
+    }
+  });
+  usageFlushLock = run.catch(() => {});
+  return run;
+}
+
+let flushTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start the background flusher for usage and quota counters (USAGE_FLUSH_INTERVAL_MS, default 5s)
+ */
+export function startUsageFlusher(
+  intervalMs: number = Number(process.env.USAGE_FLUSH_INTERVAL_MS) || 5000
+): void {
+  if (flushTimer) return;
+  flushTimer = setInterval(() => {
+    flushUsage().catch((err) => logger.error('Usage flush error', err));
+    flushQuotaUsage().catch((err) => logger.error('Quota usage flush error', err));
+  }, intervalMs);
+  flushTimer.unref();
+}
+
+/**
+ * Stop the flusher and write out whatever is still pending
+ */
+export async function stopUsageFlusher(): Promise<void> {
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+  await Promise.all([flushUsage(), flushQuotaUsage()]);
+}
+
+/**
+ * Check rate limit for a given API key (or, at user scope, all of the user's keys)
+ * and period against the `Usage` table
+ */
+async function checkPeriodLimitDb(
+  apiKeyId: string,
+  userId: string,
+  scope: LimitScope,
+  period: Period,
   limit: number
 ): Promise<RateLimitStatus> {
   if (limit === 0) {
@@ -74,60 +432,27 @@ async function checkPeriodLimit(
   }
 
   const now = Date.now();
-  const currBucket = getBucketTimestamp(period);
-  const currBucketStart = currBucket.getTime();
-
-  // Approximate window length from the period granularity.
-  const periodMs = period === 'MINUTE' ? 60_000 : period === 'HOUR' ? 3_600_000 : 86_400_000;
+  const periodMs = PERIOD_MS[period];
+  const currBucketStart = getBucketStart(period, now);
   const prevBucketStart = currBucketStart - periodMs;
   const resetTime = new Date(currBucketStart + periodMs);
 
-  // Find/create current & previous usage records.
-  let [currUsage, prevUsage] = await Promise.all([
-    prisma.usage.findFirst({
-      where: {
-        apiKeyId,
-        peroid: period,
-        timestampBucket: currBucket,
-      },
-    }),
-    prisma.usage.findFirst({
-      where: {
-        apiKeyId,
-        peroid: period,
-        timestampBucket: new Date(prevBucketStart),
-      },
-    }),
-  ]);
-
-  if (!currUsage) {
-    currUsage = await prisma.usage.create({
-      data: {
-        apiKeyId,
-        peroid: period,
-        timestampBucket: currBucket,
-        requestCount: 0,
-      },
-    });
-  }
-
-  if (!prevUsage) {
-    prevUsage = await prisma.usage.create({
-      data: {
-        apiKeyId,
-        peroid: period,
-        timestampBucket: new Date(prevBucketStart),
-        requestCount: 0,
-      },
-    });
-  }
+  // Missing rows simply count as zero; they are created on first increment.
+  const owner = scope === 'user' ? { apiKey: { userId } } : { apiKeyId };
+  const [currUsage, prevUsage] = await Promise.all(
+    [currBucketStart, prevBucketStart].map(async (bucketStart) => {
+      const usage = await prisma.usage.aggregate({
+        where: { ...owner, peroid: period, timestampBucket: new Date(bucketStart) },
+        _sum: { requestCount: true },
+      });
+      return usage._sum.requestCount ?? 0;
+    })
+  );
 
-  const elapsedInCurr = now - currBucketStart; // [0..periodMs)
-  const fractionCurr = Math.max(0, Math.min(1, elapsedInCurr / periodMs));
-  const fractionPrev = 1 - fractionCurr;
+  const fractionPrev = 1 - Math.max(0, Math.min(1, (now - currBucketStart) / periodMs));
 
   // Sliding window estimate.
-  const estimatedUsed = currUsage.requestCount + prevUsage.requestCount * fractionPrev;
+  const estimatedUsed = currUsage + prevUsage * fractionPrev;
   const remaining = Math.max(0, Math.ceil(limit - estimatedUsed));
   const isAllowed = estimatedUsed + 1 <= limit;
 
@@ -135,99 +460,151 @@ async function checkPeriodLimit(
     isAllowed,
     limit,
     remaining,
+    used: estimatedUsed,
     resetTime,
+    scope,
   };
 }
 
 /**
- * Increment request count for a given API key and period
+ * Increment request count for a given API key and period in the `Usage` table
  */
-async function incrementCounter(
+async function incrementCounterDb(apiKeyId: string, period: Period): Promise<void> {
+  const timestampBucket = new Date(getBucketStart(period));
+
+  const updated = await prisma.usage.updateMany({
+    where: { apiKeyId, peroid: period, timestampBucket },
+    data: { requestCount: { increment: 1 } },
+  });
+
+  if (updated.count === 0) {
+    await prisma.usage.create({
+      data: { apiKeyId, peroid: period, timestampBucket, requestCount: 1 },
+    });
+  }
+}
+
+async function checkRateLimitsDb(
   apiKeyId: string,
-  period: 'MINUTE' | 'HOUR' | 'DAY'
-): Promise<void> {
-  const bucket = getBucketTimestamp(period);
+  userId: string,
+  limits: PlanLimits
+): Promise<RateLimitStatus> {
+  const levels = getLimitLevels(apiKeyId, userId, limits.scope).filter((level) => level.enforced);
+  const statuses = await Promise.all(
+    levels.flatMap((level) =>
+      PERIODS.map(async (period) => ({
+        ...(await checkPeriodLimitDb(apiKeyId, userId, level.scope, period, limits[period])),
+        constraint: PERIOD_CONSTRAINT[period],
+        windowMs: PERIOD_MS[period],
+      }))
+    )
+  );
+  return combineStatuses(statuses.filter((status) => status.limit > 0));
+}
 
-  await prisma.usage.updateMany({
-    where: {
-      apiKeyId,
-      peroid: period,
-      timestampBucket: bucket,
-    },
-    data: {
-      requestCount: {
-        increment: 1,
-      },
-    },
+async function recordRequestDb(apiKeyId: string): Promise<void> {
+  await Promise.all(PERIODS.map((period) => incrementCounterDb(apiKeyId, period)));
+}
+
+function logRedisFallback(err: any): void {
+  logger.warn('Redis rate limit path failed, falling back to Postgres', {
+    error: err && (err.message || err),
   });
 }
 
 /**
- * Check if API key is within rate limits based on its rate plan
- * Returns the most restrictive limit status
+ * Check if API key is within rate limits based on its rate plan (does not consume)
+ * Returns the most restrictive limit status, with every window (and the burst bucket) in `windows`
  */
 export async function checkRateLimits(apiKeyId: string): Promise<RateLimitStatus> {
-  // Get API key with rate plan
-  const apiKey = await prisma.apiKey.findUnique({
-    where: { id: apiKeyId },
-    include: { plan: true },
-  });
+  const { userId, limits } = await getPlanContext(apiKeyId);
 
-  if (!apiKey) {
-    throw new Error('API Key not found');
+  if (isRedisReady()) {
+    try {
+      return await evaluatePlanLimitsRedis(apiKeyId, userId, limits, false);
+    } catch (err) {
+      logRedisFallback(err);
+    }
   }
 
-  const plan = apiKey.plan;
-
-  // Check all period limits
-  const minuteStatus = await checkPeriodLimit(apiKeyId, 'MINUTE', plan.requestsPerMinute);
-  const hourStatus = await checkPeriodLimit(apiKeyId, 'HOUR', plan.requestsPerHour);
-  const dayStatus = await checkPeriodLimit(apiKeyId, 'DAY', plan.requestsPerDay);
+  return checkRateLimitsDb(apiKeyId, userId, limits);
+}
 
-  // If any limit is exceeded, return that status
-  if (!minuteStatus.isAllowed) {
-    return {
-      ...minuteStatus,
-      retryAfter: Math.ceil((minuteStatus.resetTime.getTime() - Date.now()) / 1000),
-    };
+/**
+ * Record a request for an API key (increments all period counters)
+ */
+export async function recordRequest(apiKeyId: string): Promise<void> {
+  if (isRedisReady()) {
+    try {
+      const { userId, limits } = await getPlanContext(apiKeyId);
+      return await incrementPlanWindowsRedis(
+        apiKeyId,
+        getLimitLevels(apiKeyId, userId, limits.scope)
+      );
+    } catch (err) {
+      logRedisFallback(err);
+    }
   }
 
-  if (!hourStatus.isAllowed) {
-    return {
-      ...hourStatus,
-      retryAfter: Math.ceil((hourStatus.resetTime.getTime() - Date.now()) / 1000),
-    };
+  await recordRequestDb(apiKeyId);
+}
+
+/**
+ * Check and record a request in one step, including the plan's burst cap.
+ * Every level with a limit is checked together (the key, and at user scope all of the user's
+ * keys), and the most restrictive one is reported. With Redis this is atomic across replicas;
+ * the Postgres fallback checks then increments (burst control needs Redis and is skipped
+ * while falling back).
+ */
+export async function consumeRateLimits(apiKeyId: string): Promise<RateLimitStatus> {
+  const { userId, limits } = await getPlanContext(apiKeyId);
+
+  if (isRedisReady()) {
+    try {
+      return await evaluatePlanLimitsRedis(apiKeyId, userId, limits, true);
+    } catch (err) {
+      logRedisFallback(err);
+    }
   }
 
-  if (!dayStatus.isAllowed) {
-    return {
-      ...dayStatus,
-      retryAfter: Math.ceil((dayStatus.resetTime.getTime() - Date.now()) / 1000),
-    };
+  const status = await checkRateLimitsDb(apiKeyId, userId, limits);
+  if (status.isAllowed) {
+    await recordRequestDb(apiKeyId);
   }
+  return status;
+}
 
-  // All limits passed, return the most restrictive remaining
-  const mostRestrictive = [minuteStatus, hourStatus, dayStatus].sort(
-    (a, b) => a.remaining - b.remaining
-  )[0];
+/**
+ * In-flight request cap for an API key's plan (0 = unlimited)
+ */
+export async function getPlanConcurrencyLimit(apiKeyId: string): Promise<number> {
+  const limits = await getPlanLimits(apiKeyId);
+  return limits.maxConcurrent;
+}
 
-  return {
-    isAllowed: true,
-    limit: mostRestrictive.limit,
-    remaining: mostRestrictive.remaining,
-    resetTime: mostRestrictive.resetTime,
-  };
+/**
+ * Open stream cap and per-stream message rate for an API key's plan (0 = unlimited)
+ */
+export async function getPlanStreamLimits(
+  apiKeyId: string
+): Promise<{ maxStreams: number; messagesPerSecond: number }> {
+  const limits = await getPlanLimits(apiKeyId);
+  return { maxStreams: limits.maxStreams, messagesPerSecond: limits.streamMessagesPerSecond };
 }
 
 /**
- * Record a request for an API key (increments all period counters)
+ * Monthly quota settings for an API key's plan
  */
-export async function recordRequest(apiKeyId: string): Promise<void> {
-  await Promise.all([
-    incrementCounter(apiKeyId, 'MINUTE'),
-    incrementCounter(apiKeyId, 'HOUR'),
-    incrementCounter(apiKeyId, 'DAY'),
-  ]);
+export async function getPlanQuota(apiKeyId: string): Promise<PlanQuota> {
+  const limits = await getPlanLimits(apiKeyId);
+  return limits.quota;
+}
+
+/**
+ * Name of an API key's rate plan
+ */
+export async function getPlanName(apiKeyId: string): Promise<string> {
+  return (await getPlanContext(apiKeyId)).planName;
 }
 
 /**
@@ -267,16 +644,16 @@ export async function getUsageStats(apiKeyId: string) {
 
   return {
     totalRequests: logs.length,
-    usage: usage.map((u) => ({
+    usage: usage.map((u: (typeof usage)[number]) => ({
       period: u.peroid,
       count: u.requestCount,
       bucket: u.timestampBucket,
     })),
-    recentRequests: logs.slice(-10).map((log) => ({
+    recentRequests: logs.slice(-10).map((log: (typeof logs)[number]) => ({
       endpoint: log.endPoint,
       statusCode: log.statusCode,
       responseTime: log.responseTimeMs,
       timestamp: log.createdAt,
     })),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,108 @@
+/**
+ * Response Cache Service
+ * Stored GET responses in Redis, per API key or shared by every caller of a route.
+ * Keys:
+ * - `cache:{scope}:vary:{url}`: the request headers the response varies on
+ * - `cache:{scope}:{variant}:{url}`: the stored response for one variant
+ * - `cachetag:{tag}`: the responses tagged with `tag`, for purging
+ * where scope is `shared` or `key.{apiKeyId}`. URLs never contain the `?apiKey=` credential.
+ */
+
+import type http from 'http';
+import redis from '../utils/redis.ts';
+import { MAX_CACHE_TTL_SECONDS, variantId, type CacheOptions } from '../utils/httpCache.ts';
+
+export interface CachedResponse {
+  status: number;
+  headers: Record<string, string | string[]>;
+  body: Buffer;
+  etag: string;
+  storedAt: number; // ms
+}
+
+const SCAN_COUNT = 500;
+
+export function cacheScope(options: CacheOptions, apiKeyId: string | undefined): string | null {
+  if (options.scope === 'shared') return 'shared';
+  return apiKeyId ? `key.${apiKeyId}` : null;
+}
+
+const varyKey = (scope: string, url: string) => `cache:${scope}:vary:${url}`;
+const entryKey = (scope: string, variant: string, url: string) =>
+  `cache:${scope}:${variant}:${url}`;
+const tagKey = (tag: string) => `cachetag:${tag}`;
+
+/**
+ * Stored response for the request's variant of `url`, if any
+ */
+export async function lookupCachedResponse(
+  scope: string,
+  url: string,
+  requestHeaders: http.IncomingHttpHeaders
+): Promise<CachedResponse | null> {
+  const vary = await redis.get(varyKey(scope, url));
+  if (vary === null) return null;
+
+  const stored = await redis.get(entryKey(scope, variantId(requestHeaders, JSON.parse(vary)), url));
+  if (stored === null) return null;
+
+  const entry = JSON.parse(stored);
+  return { ...entry, body: Buffer.from(entry.body, 'base64') };
+}
+
+export async function storeCachedResponse(
+  scope: string,
+  url: string,
+  requestHeaders: http.IncomingHttpHeaders,
+  vary: string[],
+  response: CachedResponse,
+  lifetimeSeconds: number,
+  tags: string[]
+): Promise<void> {
+  const key = entryKey(scope, variantId(requestHeaders, vary), url);
+  const ttlMs = lifetimeSeconds * 1000;
+
+  const pipeline = redis
+    .multi()
+    .set(varyKey(scope, url), JSON.stringify(vary), 'PX', ttlMs)
+    .set(key, JSON.stringify({ ...response, body: response.body.toString('base64') }), 'PX', ttlMs);
+  for (const tag of tags) {
+    // Kept as long as the longest-lived response it may list
+    pipeline.sadd(tagKey(tag), key).expire(tagKey(tag), MAX_CACHE_TTL_SECONDS);
+  }
+  await pipeline.exec();
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Remove stored responses carrying any of `tags` or whose path starts with `prefix`, for
+ * every scope. Returns how many responses were removed.
+ */
+export async function purgeCache(filter: { tags?: string[]; prefix?: string }): Promise<number> {
+  let purged = 0;
+
+  for (const tag of filter.tags || []) {
+    const keys = await redis.smembers(tagKey(tag));
+    if (keys.length) purged += await redis.del(...keys);
+    await redis.del(tagKey(tag));
+  }
+
+  if (filter.prefix) {
+    const match = `cache:*:*:${escapeGlob(filter.prefix)}*`;
+    let cursor = '0';
+    do {
+      const [next, keys] = await redis.scan(cursor, 'MATCH', match, 'COUNT', SCAN_COUNT);
+      cursor = next;
+      const entries = keys.filter((key) => key.split(':')[2] !== 'vary');
+      if (entries.length) purged += await redis.del(...entries);
+      if (entries.length < keys.length) {
+        await redis.del(...keys.filter((key) => !entries.includes(key)));
+      }
+    } while (cursor !== '0');
+  }
+
+  return purged;
+}
@@ -0,0 +1,87 @@
+/**
+ * Retry Service
+ * Retry policy helpers for proxied routes:
+ * - exponential backoff with full jitter between attempts
+ * - a retry budget per route: retries within the last `BUDGET_WINDOW_MS` may not exceed
+ *   `budgetPercent` of the requests seen in that window (plus a small allowance of
+ *   `minRetriesPerSecond`), so a failing upstream is not hit with a multiple of the traffic
+ * Budgets are per process, like passive health tracking.
+ */
+
+export interface RetryPolicy {
+  attempts: number; // retries after the first attempt
+  methods: string[]; // only requests with these methods are retried
+  statuses: number[]; // upstream statuses that are retried (connection errors and timeouts always are)
+  baseDelayMs: number;
+  maxDelayMs: number;
+  budgetPercent: number; // 0..100
+  minRetriesPerSecond: number;
+}
+
+export const BUDGET_WINDOW_MS = 10_000;
+
+// The budget window is counted in one-second buckets
+const BUCKET_MS = 1000;
+
+interface BudgetBucket {
+  start: number;
+  requests: number;
+  retries: number;
+}
+
+const budgets = new Map<string, BudgetBucket[]>();
+
+function currentBuckets(route: string, now: number): BudgetBucket[] {
+  const start = now - (now % BUCKET_MS);
+  const buckets = (budgets.get(route) || []).filter(
+    (bucket) => bucket.start > now - BUDGET_WINDOW_MS
+  );
+  if (buckets[buckets.length - 1]?.start !== start) {
+    buckets.push({ start, requests: 0, retries: 0 });
+  }
+  budgets.set(route, buckets);
+  return buckets;
+}
+
+/**
+ * Count a request (first attempt) towards the route's budget
+ */
+export function recordRetryableRequest(route: string, now = Date.now()): void {
+  const buckets = currentBuckets(route, now);
+  buckets[buckets.length - 1].requests++;
+}
+
+/**
+ * Whether the route's budget has room for one more retry
+ */
+export function hasRetryBudget(route: string, policy: RetryPolicy, now = Date.now()): boolean {
+  const buckets = currentBuckets(route, now);
+  const requests = buckets.reduce((sum, bucket) => sum + bucket.requests, 0);
+  const retries = buckets.reduce((sum, bucket) => sum + bucket.retries, 0);
+
+  const allowed =
+    (requests * policy.budgetPercent) / 100 +
+    (policy.minRetriesPerSecond * BUDGET_WINDOW_MS) / 1000;
+  return retries + 1 <= allowed;
+}
+
+/**
+ * Count a retry against the route's budget
+ */
+export function recordRetry(route: string, now = Date.now()): void {
+  const buckets = currentBuckets(route, now);
+  buckets[buckets.length - 1].retries++;
+}
+
+/**
+ * Delay before the given retry (1-based): a random delay up to
+ * min(maxDelayMs, baseDelayMs * 2^(retry - 1))
+ */
+export function backoffDelay(policy: RetryPolicy, retry: number, random = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.floor(random() * ceiling);
+}
+
+export function resetRetryBudgets(): void {
+  budgets.clear();
+}
@@ -0,0 +1,452 @@
+/**
+ * Stream Proxy Service
+ * WebSocket and Server-Sent Events on proxied routes, limited by the key's rate plan:
+ * - open streams per API key are capped at `maxStreams` (Redis leases, renewed while open)
+ * - messages inside a stream are capped at `streamMessagesPerSecond`: WebSocket messages
+ *   from the client, SSE events from the upstream
+ * SSE goes through the regular proxy chain (see middlewares/proxy.ts). WebSocket upgrades
+ * bypass Express and are authenticated, charged and logged here. A missing or invalid key
+ * gets a plain HTTP error; once the key is known, failures are reported as close codes:
+ * 1013 (Try Again Later) over a limit, 1008 (Policy Violation) over the message rate and
+ * 1014 (Bad Gateway) when the upstream can't be reached.
+ */
+
+import http from 'http';
+import type { Duplex } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import WebSocket, { WebSocketServer, type RawData } from 'ws';
+import logger from '../utils/logger.ts';
+import {
+  AppError,
+  BadGatewayError,
+  ConcurrencyLimitError,
+  ErrorCode,
+  GatewayTimeoutError,
+  NotFoundError,
+  RateLimitError,
+} from '../utils/errors.ts';
+import { createErrorResponse } from '../utils/response.ts';
+import {
+  CloseCode,
+  createMessageRateLimiter,
+  type MessageRateLimiter,
+} from '../utils/streamMeter.ts';
+import { authenticateApiKey } from '../middlewares/apiKeyAuth.ts';
+import { acquireLease } from './concurrencyService.ts';
+import {
+  acquireLeaseInMemory,
+  getDefaultFailureMode,
+  withRedisFailover,
+} from './rateLimitFailover.ts';
+import { getLimiterMode, recordShadowRejection } from './limiterModeService.ts';
+import {
+  consumeRateLimits,
+  getPlanName,
+  getPlanStreamLimits,
+  logRequest,
+} from './rateLimitService.ts';
+import { getProxyRoutes } from './proxyConfigService.ts';
+import {
+  DEFAULT_CONNECT_TIMEOUT_MS,
+  buildUpstreamUrl,
+  matchProxyRoute,
+  upstreamRequestHeaders,
+  type ProxyRoute,
+} from './proxyService.ts';
+import { stripCredentialQuery, type TransformContext } from './proxyTransformService.ts';
+import { getPool, pickTarget } from './upstreamPoolService.ts';
+import { acquireCircuit } from './circuitBreakerService.ts';
+
+// Set by the WebSocket client for the upstream connection
+const WEBSOCKET_HEADERS = [
+  'sec-websocket-key',
+  'sec-websocket-version',
+  'sec-websocket-extensions',
+  'sec-websocket-protocol',
+];
+
+// Close reasons are limited to 123 bytes
+const MAX_CLOSE_REASON_BYTES = 123;
+
+const wss = new WebSocketServer({
+  noServer: true,
+  // Answer with the subprotocol the upstream picked, or the client's first choice when
+  // the connection is only accepted to be closed
+  handleProtocols: (protocols, req) => {
+    const chosen = (req as any).upstreamProtocol;
+    return chosen !== undefined ? chosen : protocols.values().next().value || false;
+  },
+});
+
+const openClients = new Set<WebSocket>();
+
+/**
+ * Take a stream lease for the key. Returns the release function; throws
+ * ConcurrencyLimitError when the key already has `maxStreams` streams open.
+ */
+export async function acquireStreamLease(
+  apiKeyId: string,
+  maxStreams: number
+): Promise<() => void> {
+  if (maxStreams <= 0) return () => {};
+
+  const key = `stream:${apiKeyId}`;
+  const lease = await withRedisFailover(
+    getDefaultFailureMode(),
+    () => acquireLease(key, maxStreams),
+    () => acquireLeaseInMemory(key, maxStreams)
+  );
+  if (!lease) {
+    // Fail-open while Redis is unavailable
+    return () => {};
+  }
+  if (!lease.allowed) {
+    throw new ConcurrencyLimitError(`Too many open streams. At most ${lease.limit} may be open`, {
+      limit: lease.limit,
+      active: lease.active,
+    });
+  }
+  return () => void lease.release();
+}
+
+/**
+ * Answer an upgrade request with an HTTP error in the standard format
+ */
+function rejectUpgrade(socket: Duplex, error: AppError): void {
+  const body = JSON.stringify(createErrorResponse(error.code, error.message, error.details));
+  const retryAfter = error.details?.retryAfter
+    ? `Retry-After: ${error.details.retryAfter}\r\n`
+    : '';
+  socket.end(
+    `HTTP/1.1 ${error.statusCode} ${http.STATUS_CODES[error.statusCode]}\r\n` +
+      'Content-Type: application/json\r\n' +
+      `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+      retryAfter +
+      'Connection: close\r\n\r\n' +
+      body
+  );
+}
+
+function closeReason(message: string): string {
+  let reason = message;
+  while (Buffer.byteLength(reason) > MAX_CLOSE_REASON_BYTES) {
+    reason = reason.slice(0, -1);
+  }
+  return reason;
+}
+
+function closeCodeFor(error: AppError): number {
+  if (error instanceof BadGatewayError || error instanceof GatewayTimeoutError) {
+    return CloseCode.BAD_GATEWAY;
+  }
+  if (error.statusCode === 429 || error.statusCode === 503) {
+    return CloseCode.TRY_AGAIN_LATER;
+  }
+  return CloseCode.INTERNAL_ERROR;
+}
+
+/**
+ * Complete the handshake only to close the connection, so the client sees why
+ */
+function acceptAndClose(
+  req: http.IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  error: AppError
+): void {
+  wss.handleUpgrade(req, socket, head, (client) => {
+    client.close(closeCodeFor(error), closeReason(error.message));
+  });
+}
+
+/**
+ * Close a socket unless it is closing already. Codes that may not be sent on the wire
+ * (1005 no status, 1006 abnormal closure, ...) are replaced with `fallback`.
+ */
+function closeWith(
+  socket: WebSocket,
+  code: number,
+  reason: Buffer | string = '',
+  fallback: number = CloseCode.GOING_AWAY
+): void {
+  if (socket.readyState === WebSocket.CLOSING || socket.readyState === WebSocket.CLOSED) return;
+  const sendable =
+    (code >= 1000 && code <= 1014 && ![1004, 1005, 1006].includes(code)) ||
+    (code >= 3000 && code <= 4999);
+  if (sendable) {
+    socket.close(code, reason);
+  } else {
+    socket.close(fallback);
+  }
+}
+
+/**
+ * Plan rate limits apply to opening a WebSocket like to any request, honouring the plan
+ * limiter's mode
+ */
+async function chargeConnection(apiKeyId: string, context: TransformContext): Promise<void> {
+  const status = await consumeRateLimits(apiKeyId);
+  if (status.isAllowed) return;
+
+  const retryAfter = status.retryAfter || 60;
+  if (getLimiterMode('plan') === 'shadow') {
+    recordShadowRejection('plan', {
+      requestId: context.requestId,
+      path: context.path,
+      apiKeyId,
+      retryAfter,
+    });
+    return;
+  }
+  throw new RateLimitError(`Rate limit exceeded. Try again in ${retryAfter} seconds`, {
+    constraint: status.constraint,
+    limit: status.limit,
+    retryAfter,
+  });
+}
+
+interface UpstreamConnection {
+  socket: WebSocket;
+  // Stops buffering and returns what the upstream sent before the relay was attached
+  takeBuffered: () => Array<[RawData, boolean]>;
+}
+
+function connectUpstream(
+  req: http.IncomingMessage,
+  route: ProxyRoute,
+  targetBase: URL,
+  context: TransformContext
+): Promise<UpstreamConnection> {
+  const url = buildUpstreamUrl(route, targetBase, req.url || '/', context);
+  stripCredentialQuery(url);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+
+  const headers = upstreamRequestHeaders(req, url, route, context);
+  for (const name of WEBSOCKET_HEADERS) {
+    delete headers[name];
+  }
+  const protocols = String(req.headers['sec-websocket-protocol'] || '')
+    .split(',')
+    .map((protocol) => protocol.trim())
+    .filter(Boolean);
+
+  return new Promise((resolve, reject) => {
+    const upstream = new WebSocket(url, protocols, {
+      headers: headers as Record<string, string>,
+      handshakeTimeout: route.connectTimeoutMs || DEFAULT_CONNECT_TIMEOUT_MS,
+      perMessageDeflate: false,
+    });
+
+    upstream.once('open', () => {
+      // The upstream may speak first (e.g. a greeting) while the client handshake is
+      // still to come: hold its messages until the relay takes over
+      const buffered: Array<[RawData, boolean]> = [];
+      const hold = (data: RawData, isBinary: boolean) => buffered.push([data, isBinary]);
+      upstream.on('message', hold);
+      resolve({
+        socket: upstream,
+        takeBuffered: () => {
+          upstream.off('message', hold);
+          return buffered;
+        },
+      });
+    });
+    upstream.once('unexpected-response', (upstreamReq, upstreamRes) => {
+      upstreamRes.resume();
+      upstreamReq.destroy();
+      reject(
+        new BadGatewayError(`Upstream '${route.upstream}' refused the WebSocket upgrade`, {
+          upstream: route.upstream,
+          upstreamStatus: upstreamRes.statusCode,
+        })
+      );
+    });
+    // Stays attached: later errors are handled by closing the client
+    upstream.on('error', (err: any) => {
+      reject(
+        new BadGatewayError(`Upstream '${route.upstream}' is unavailable`, {
+          upstream: route.upstream,
+          error: err.code || err.message,
+        })
+      );
+    });
+  });
+}
+
+/**
+ * Relay messages both ways, limiting the client's message rate
+ */
+function relay(
+  client: WebSocket,
+  connection: UpstreamConnection,
+  limiter: MessageRateLimiter | null,
+  onClose: (code: number) => void
+): void {
+  const upstream = connection.socket;
+  for (const [data, isBinary] of connection.takeBuffered()) {
+    client.send(data, { binary: isBinary });
+  }
+
+  client.on('message', (data: RawData, isBinary: boolean) => {
+    if (limiter && !limiter.take()) {
+      const reason = `Message rate exceeded (${limiter.messagesPerSecond}/s)`;
+      client.close(CloseCode.POLICY_VIOLATION, reason);
+      upstream.close(CloseCode.GOING_AWAY);
+      return;
+    }
+    if (upstream.readyState === WebSocket.OPEN) upstream.send(data, { binary: isBinary });
+  });
+  upstream.on('message', (data: RawData, isBinary: boolean) => {
+    if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+  });
+
+  client.on('close', (code, reason) => {
+    closeWith(upstream, code, reason);
+    onClose(code);
+  });
+  upstream.on('close', (code, reason) => {
+    closeWith(client, code, reason, CloseCode.BAD_GATEWAY);
+  });
+
+  client.on('error', () => upstream.terminate());
+  upstream.on('error', () => closeWith(client, CloseCode.BAD_GATEWAY));
+
+  // The upstream may have gone away during the client handshake
+  if (upstream.readyState !== WebSocket.OPEN) {
+    closeWith(client, CloseCode.BAD_GATEWAY);
+  }
+}
+
+async function handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer) {
+  const requestId = uuidv4();
+  const startTime = Date.now();
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  socket.on('error', () => socket.destroy());
+
+  const route = matchProxyRoute(getProxyRoutes(), 'GET', path);
+  if (!route) {
+    rejectUpgrade(socket, new NotFoundError('Route'));
+    return;
+  }
+
+  let identity: { userId: string; apiKeyId: string };
+  try {
+    identity = await authenticateApiKey(req);
+  } catch (error) {
+    rejectUpgrade(
+      socket,
+      error instanceof AppError
+        ? error
+        : new AppError(ErrorCode.INTERNAL_SERVER_ERROR, 500, 'Internal server error')
+    );
+    return;
+  }
+
+  const { userId, apiKeyId } = identity;
+  const context: TransformContext = {
+    userId,
+    apiKeyId,
+    requestId,
+    route: route.name,
+    method: 'GET',
+    path,
+    clientIp: req.socket.remoteAddress,
+  };
+
+  let releaseLease = () => {};
+  let limiter: MessageRateLimiter | null = null;
+  let connection: UpstreamConnection | undefined;
+  let releaseTarget: ((outcome: 'success' | 'failure') => void) | undefined;
+  try {
+    context.plan = await getPlanName(apiKeyId);
+    await chargeConnection(apiKeyId, context);
+    const limits = await getPlanStreamLimits(apiKeyId);
+    releaseLease = await acquireStreamLease(apiKeyId, limits.maxStreams);
+    if (limits.messagesPerSecond > 0) {
+      limiter = createMessageRateLimiter(limits.messagesPerSecond);
+    }
+
+    const breaker = getPool(route.upstream)?.circuitBreaker;
+    const circuit = breaker ? await acquireCircuit(route.upstream, breaker) : null;
+    const connectStart = Date.now();
+    try {
+      const target = pickTarget(route.upstream);
+      releaseTarget = target.release;
+      connection = await connectUpstream(req, route, target.url, context);
+    } catch (error) {
+      await circuit?.record({ failed: true, durationMs: Date.now() - connectStart });
+      throw error;
+    }
+    void circuit?.record({ failed: false, durationMs: Date.now() - connectStart });
+  } catch (error: any) {
+    connection?.socket.terminate();
+    releaseLease();
+    releaseTarget?.('failure');
+    const appError =
+      error instanceof AppError
+        ? error
+        : new AppError(ErrorCode.INTERNAL_SERVER_ERROR, 500, 'Internal server error');
+    logger.warn('WebSocket connection rejected', {
+      requestId,
+      route: route.name,
+      apiKeyId,
+      code: appError.code,
+      error: appError.message,
+    });
+    acceptAndClose(req, socket, head, appError);
+    return;
+  }
+
+  // ws aborts invalid handshakes (e.g. a missing Sec-WebSocket-Key) without a callback
+  let accepted = false;
+  socket.once('close', () => {
+    if (accepted) return;
+    upstream.socket.terminate();
+    releaseLease();
+    releaseTarget?.('success');
+  });
+
+  const upstream = connection;
+  (req as any).upstreamProtocol = upstream.socket.protocol || false;
+  wss.handleUpgrade(req, socket, head, (client) => {
+    accepted = true;
+    openClients.add(client);
+    logger.info('WebSocket connected', { requestId, route: route.name, apiKeyId });
+
+    relay(client, upstream, limiter, (code) => {
+      openClients.delete(client);
+      releaseLease();
+      releaseTarget?.('success');
+      logger.info('WebSocket closed', { requestId, route: route.name, apiKeyId, code });
+      logRequest(apiKeyId, path, 101, Date.now() - startTime, req.socket.remoteAddress).catch(
+        (err: any) => {
+          logger.warn('Failed to log WebSocket connection', {
+            requestId,
+            error: err && (err.message || err),
+          });
+        }
+      );
+    });
+  });
+}
+
+/**
+ * Proxy WebSocket upgrades on the server's proxied routes
+ */
+export function attachWebSocketProxy(server: http.Server): void {
+  server.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+    handleUpgrade(req, socket, head).catch((err: any) => {
+      logger.error('WebSocket upgrade failed', { error: err && (err.message || err) });
+      socket.destroy();
+    });
+  });
+}
+
+/**
+ * Close every proxied WebSocket with 1001 (Going Away), e.g. on shutdown
+ */
+export function closeWebSockets(): void {
+  for (const client of openClients) {
+    client.close(CloseCode.GOING_AWAY, 'Server shutting down');
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Upstream Pool Service
+ * Load balancing across the targets of an upstream pool, with health tracking:
+ * - active: each target's health check path is probed periodically; a target turns
+ *   unhealthy after `unhealthyThreshold` failed probes and healthy again after
+ *   `healthyThreshold` successful ones
+ * - passive: `maxFailures` consecutive 5xx/timeouts from real traffic eject a target for
+ *   `ejectMs`, after which it receives traffic again
+ * State is per process: each replica probes and ejects on its own.
+ */
+
+import http from 'http';
+import https from 'https';
+import logger from '../utils/logger.ts';
+import { ServiceUnavailableError } from '../utils/errors.ts';
+import type { CircuitBreakerConfig } from './circuitBreakerService.ts';
+
+export type BalancerStrategy = 'round-robin' | 'least-connections' | 'weighted';
+
+export interface HealthCheckConfig {
+  path: string;
+  intervalMs: number;
+  timeoutMs: number;
+  healthyThreshold: number;
+  unhealthyThreshold: number;
+}
+
+export interface PassiveHealthConfig {
+  maxFailures: number; // consecutive 5xx/timeouts before ejection
+  ejectMs: number;
+}
+
+export interface UpstreamPool {
+  name: string;
+  balancer: BalancerStrategy;
+  targets: Array<{ url: URL; weight: number }>;
+  healthCheck?: HealthCheckConfig;
+  passive: PassiveHealthConfig;
+  circuitBreaker?: CircuitBreakerConfig; // shared across replicas, see circuitBreakerService
+}
+
+export interface UpstreamTarget {
+  url: URL;
+  // Report how the request went; a failure counts towards passive ejection
+  release: (outcome: 'success' | 'failure') => void;
+}
+
+interface TargetState {
+  url: URL;
+  weight: number;
+  activeRequests: number;
+  healthy: boolean; // active health check verdict
+  probeSuccesses: number; // consecutive, while unhealthy
+  probeFailures: number; // consecutive, while healthy
+  passiveFailures: number;
+  ejectedUntil: number;
+  currentWeight: number; // smooth weighted round-robin
+  lastError?: string;
+}
+
+interface PoolState {
+  config: UpstreamPool;
+  targets: TargetState[];
+  cursor: number;
+  timer: NodeJS.Timeout | null;
+}
+
+const pools = new Map<string, PoolState>();
+
+function isAvailable(target: TargetState, now: number): boolean {
+  return target.healthy && target.ejectedUntil <= now;
+}
+
+/**
+ * Smooth weighted round-robin (as in nginx): spreads picks evenly in proportion to weight
+ */
+function pickWeighted(targets: TargetState[]): TargetState {
+  const total = targets.reduce((sum, target) => sum + target.weight, 0);
+  let best = targets[0];
+  for (const target of targets) {
+    target.currentWeight += target.weight;
+    if (target.currentWeight > best.currentWeight) best = target;
+  }
+  best.currentWeight -= total;
+  return best;
+}
+
+function pickTargetState(pool: PoolState, available: TargetState[]): TargetState {
+  switch (pool.config.balancer) {
+    case 'weighted':
+      return pickWeighted(available);
+    case 'least-connections': {
+      // Ties go round-robin so idle targets share the load
+      const fewest = Math.min(...available.map((target) => target.activeRequests));
+      const candidates = available.filter((target) => target.activeRequests === fewest);
+      return candidates[pool.cursor++ % candidates.length];
+    }
+    default:
+      return available[pool.cursor++ % available.length];
+  }
+}
+
+function recordOutcome(pool: PoolState, target: TargetState, outcome: 'success' | 'failure'): void {
+  if (outcome === 'success') {
+    target.passiveFailures = 0;
+    return;
+  }
+
+  target.passiveFailures++;
+  if (target.passiveFailures >= pool.config.passive.maxFailures) {
+    target.passiveFailures = 0;
+    target.ejectedUntil = Date.now() + pool.config.passive.ejectMs;
+    logger.warn('Upstream target ejected after consecutive failures', {
+      upstream: pool.config.name,
+      target: target.url.origin,
+      ejectMs: pool.config.passive.ejectMs,
+    });
+  }
+}
+
+export function getPool(poolName: string): UpstreamPool | undefined {
+  return pools.get(poolName)?.config;
+}
+
+/**
+ * Pick a target from the pool. Throws ServiceUnavailableError when every target is
+ * unhealthy or ejected.
+ */
+export function pickTarget(poolName: string): UpstreamTarget {
+  const pool = pools.get(poolName);
+  if (!pool) {
+    throw new ServiceUnavailableError(`Upstream '${poolName}' is not configured`);
+  }
+
+  const now = Date.now();
+  const available = pool.targets.filter((target) => isAvailable(target, now));
+  if (available.length === 0) {
+    const ejections = pool.targets.map((target) => target.ejectedUntil).filter((t) => t > now);
+    const retryAfter = ejections.length ? Math.ceil((Math.min(...ejections) - now) / 1000) : 5;
+    throw new ServiceUnavailableError(`No healthy target for upstream '${poolName}'`, {
+      upstream: poolName,
+      retryAfter,
+    });
+  }
+
+  const target = pickTargetState(pool, available);
+  target.activeRequests++;
+
+  let released = false;
+  return {
+    url: target.url,
+    release: (outcome) => {
+      if (released) return;
+      released = true;
+      target.activeRequests--;
+      recordOutcome(pool, target, outcome);
+    },
+  };
+}
+
+function probe(url: URL, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const probeReq = (url.protocol === 'https:' ? https : http).get(
+      url,
+      { timeout: timeoutMs },
+      (probeRes) => {
+        probeRes.resume();
+        const status = probeRes.statusCode || 0;
+        if (status >= 200 && status < 400) {
+          resolve();
+        } else {
+          reject(new Error(`status ${status}`));
+        }
+      }
+    );
+    probeReq.on('timeout', () => probeReq.destroy(new Error('timeout')));
+    probeReq.on('error', reject);
+  });
+}
+
+async function checkTarget(pool: PoolState, target: TargetState): Promise<void> {
+  const check = pool.config.healthCheck!;
+  const url = new URL(target.url.toString());
+  url.pathname = `${url.pathname.replace(/\/$/, '')}${check.path}`;
+
+  try {
+    await probe(url, check.timeoutMs);
+    target.probeFailures = 0;
+    target.lastError = undefined;
+    if (!target.healthy && ++target.probeSuccesses >= check.healthyThreshold) {
+      target.healthy = true;
+      target.probeSuccesses = 0;
+      logger.info('Upstream target healthy again', {
+        upstream: pool.config.name,
+        target: target.url.origin,
+      });
+    }
+  } catch (err: any) {
+    target.probeSuccesses = 0;
+    target.lastError = err && (err.code || err.message);
+    if (target.healthy && ++target.probeFailures >= check.unhealthyThreshold) {
+      target.healthy = false;
+      target.probeFailures = 0;
+      logger.warn('Upstream target failed health checks', {
+        upstream: pool.config.name,
+        target: target.url.origin,
+        error: target.lastError,
+      });
+    }
+  }
+}
+
+/**
+ * Probe every target of the pool once
+ */
+export async function runHealthChecks(poolName: string): Promise<void> {
+  const pool = pools.get(poolName);
+  if (!pool?.config.healthCheck) return;
+  await Promise.all(pool.targets.map((target) => checkTarget(pool, target)));
+}
+
+/**
+ * Apply a (re)loaded pool configuration. Targets that stay in a pool keep their health
+ * and connection counts; health check timers are restarted with the new settings.
+ */
+export function configurePools(configs: UpstreamPool[]): void {
+  const next = new Map<string, PoolState>();
+
+  for (const config of configs) {
+    const previous = pools.get(config.name);
+    const targets = config.targets.map(({ url, weight }) => {
+      const existing = previous?.targets.find((target) => target.url.href === url.href);
+      if (existing) {
+        existing.weight = weight;
+        // Without active checks nothing could mark the target healthy again
+        if (!config.healthCheck) existing.healthy = true;
+        return existing;
+      }
+      return {
+        url,
+        weight,
+        activeRequests: 0,
+        healthy: true,
+        probeSuccesses: 0,
+        probeFailures: 0,
+        passiveFailures: 0,
+        ejectedUntil: 0,
+        currentWeight: 0,
+      };
+    });
+
+    const pool: PoolState = { config, targets, cursor: previous?.cursor || 0, timer: null };
+    if (config.healthCheck) {
+      pool.timer = setInterval(
+        () => void runHealthChecks(config.name),
+        config.healthCheck.intervalMs
+      );
+      pool.timer.unref();
+    }
+    next.set(config.name, pool);
+  }
+
+  stopHealthChecks();
+  pools.clear();
+  for (const [name, pool] of next) pools.set(name, pool);
+}
+
+export function stopHealthChecks(): void {
+  for (const pool of pools.values()) {
+    if (pool.timer) {
+      clearInterval(pool.timer);
+      pool.timer = null;
+    }
+  }
+}
+
+/**
+ * Per-pool target status for /health
+ */
+export function getPoolStatus() {
+  const now = Date.now();
+  return Object.fromEntries(
+    [...pools.values()].map((pool) => [
+      pool.config.name,
+      {
+        balancer: pool.config.balancer,
+        healthy: pool.targets.filter((target) => isAvailable(target, now)).length,
+        targets: pool.targets.map((target) => ({
+          url: target.url.origin + target.url.pathname.replace(/\/$/, ''),
+          weight: target.weight,
+          healthy: target.healthy,
+          ejected: target.ejectedUntil > now,
+          activeRequests: target.activeRequests,
+          ...(target.lastError ? { lastError: target.lastError } : {}),
+        })),
+      },
+    ])
+  );
+}
@@ -0,0 +1,98 @@
+import request from 'supertest';
+import express from 'express';
+import {
+  purgeCacheController,
+  setCircuitBreakerController,
+  setLimiterModeController,
+} from '../controllers/adminController.ts';
+import { errorHandler } from '../middlewares/errorHandler.ts';
+import { getLimiterMode } from '../services/limiterModeService.ts';
+import redis from '../utils/redis.ts';
+
+let mockRedisReady = true;
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => mockRedisReady,
+}));
+
+const app = express();
+app.use(express.json());
+app.put('/admin/limiters/:name/mode', setLimiterModeController);
+app.put('/admin/circuit-breakers/:name', setCircuitBreakerController);
+app.post('/admin/cache/purge', purgeCacheController);
+app.use(errorHandler);
+
+describe('Admin API', () => {
+  beforeEach(async () => {
+    mockRedisReady = true;
+    await redis.flushall();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('switches a limiter mode', async () => {
+    const response = await request(app)
+      .put('/admin/limiters/plan/mode')
+      .send({ mode: 'shadow' })
+      .expect(200);
+
+    expect(response.body.data).toEqual({ name: 'plan', mode: 'shadow' });
+    expect(getLimiterMode('plan')).toBe('shadow');
+
+    // The override is stored in Redis, so refreshing from it keeps the mode
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 10_000);
+    getLimiterMode('plan');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(getLimiterMode('plan')).toBe('shadow');
+
+    await request(app).put('/admin/limiters/plan/mode').send({ mode: null }).expect(200);
+    expect(getLimiterMode('plan')).toBe('enforce');
+  });
+
+  it('rejects a limiter mode switch with 503 while Redis is unavailable', async () => {
+    mockRedisReady = false;
+    const response = await request(app)
+      .put('/admin/limiters/auth/mode')
+      .send({ mode: 'shadow' })
+      .expect(503);
+
+    expect(response.body.error.code).toBe('SERVICE_UNAVAILABLE');
+    expect(response.headers['retry-after']).toBe('5');
+    expect(getLimiterMode('auth')).toBe('enforce');
+  });
+
+  it('rejects an invalid limiter mode with 400', async () => {
+    const response = await request(app)
+      .put('/admin/limiters/plan/mode')
+      .send({ mode: 'sometimes' })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    expect(response.body.error.details).toHaveProperty('mode');
+  });
+
+  it('rejects an invalid circuit breaker state with 400', async () => {
+    const response = await request(app)
+      .put('/admin/circuit-breakers/orders')
+      .send({ state: 'half_open' })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    expect(response.body.error.details).toHaveProperty('state');
+  });
+
+  it('rejects a cache purge without a filter with 400', async () => {
+    const empty = await request(app).post('/admin/cache/purge').send({}).expect(400);
+    expect(empty.body.error.code).toBe('VALIDATION_ERROR');
+
+    const relative = await request(app)
+      .post('/admin/cache/purge')
+      .send({ prefix: 'orders' })
+      .expect(400);
+    expect(relative.body.error.details).toHaveProperty('prefix');
+  });
+});
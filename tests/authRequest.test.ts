@@ -0,0 +1,133 @@
+import request from 'supertest';
+import express from 'express';
+import redis from '../utils/redis.ts';
+import authRequestRoutes from '../routes/authRequest.routes.ts';
+import { errorHandler } from '../middlewares/errorHandler.ts';
+import { validateApiKey } from '../services/apiKeyService.ts';
+import { consumeRateLimits, logRequest } from '../services/rateLimitService.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+jest.mock('../prisma.ts', () => ({ __esModule: true, prisma: {} }));
+jest.mock('../services/apiKeyService.ts', () => ({ validateApiKey: jest.fn() }));
+jest.mock('../services/rateLimitService.ts', () => ({
+  consumeRateLimits: jest.fn(),
+  getPlanConcurrencyLimit: jest.fn(),
+  getPlanQuota: jest.fn(),
+  logRequest: jest.fn(async () => {}),
+}));
+
+const app = express();
+app.use('/api/v1/auth-request', authRequestRoutes);
+app.use(errorHandler);
+
+const now = 1_700_000_010_000;
+
+function minuteWindow(remaining: number) {
+  return {
+    scope: 'key',
+    constraint: 'minute',
+    limit: 100,
+    remaining,
+    resetTime: new Date(now + 50_000),
+    windowMs: 60_000,
+  };
+}
+
+function authRequest(uri: string, headers: Record<string, string> = { 'x-api-key': 'secret' }) {
+  return request(app)
+    .get('/api/v1/auth-request')
+    .set('X-Service-Token', 'service-token')
+    .set('X-Original-URI', uri)
+    .set('X-Original-Method', 'POST')
+    .set(headers);
+}
+
+describe('nginx auth_request endpoint', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    process.env.RATE_LIMIT_SERVICE_TOKEN = 'service-token';
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    (validateApiKey as jest.Mock).mockImplementation(async (key: string) =>
+      key === 'secret' ? { userId: 'user-1', apiKeyId: 'key-1' } : null
+    );
+    (consumeRateLimits as jest.Mock).mockResolvedValue({
+      isAllowed: true,
+      scope: 'key',
+      windows: [minuteWindow(99)],
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_SERVICE_TOKEN;
+    jest.restoreAllMocks();
+  });
+
+  it("answers 204 with the caller's identity and rate limit headers", async () => {
+    const response = await authRequest('/orders/42?expand=items').expect(204);
+
+    expect(response.headers['x-user-id']).toBe('user-1');
+    expect(response.headers['x-api-key-id']).toBe('key-1');
+    expect(response.headers['x-ratelimit-limit']).toBe('100');
+    expect(response.headers['x-ratelimit-remaining']).toBe('99');
+    expect(response.headers['x-ratelimit-scope']).toBe('key');
+    expect(logRequest).toHaveBeenCalledWith('key-1', 'POST /orders/42', 204, 0, expect.anything());
+  });
+
+  it("accepts the key from the original URI's apiKey parameter", async () => {
+    const response = await authRequest('/orders/42?apiKey=secret', {}).expect(204);
+
+    expect(response.headers['x-api-key-id']).toBe('key-1');
+    expect(validateApiKey).toHaveBeenCalledWith('secret');
+  });
+
+  it('answers 401 for a missing or invalid key', async () => {
+    await authRequest('/orders/42', {}).expect(401);
+    await authRequest('/orders/42', { 'x-api-key': 'wrong' }).expect(401);
+    await authRequest('/orders/42?apiKey=wrong', {}).expect(401);
+    expect(consumeRateLimits).not.toHaveBeenCalled();
+  });
+
+  it('requires the service token', async () => {
+    await request(app)
+      .get('/api/v1/auth-request')
+      .set('X-Original-URI', '/orders/42')
+      .set('x-api-key', 'secret')
+      .expect(401);
+
+    delete process.env.RATE_LIMIT_SERVICE_TOKEN;
+    await authRequest('/orders/42').expect(403);
+  });
+
+  it('answers 429 over a plan limit', async () => {
+    (consumeRateLimits as jest.Mock).mockResolvedValue({
+      isAllowed: false,
+      scope: 'key',
+      constraint: 'minute',
+      limit: 100,
+      retryAfter: 50,
+      windows: [minuteWindow(0)],
+    });
+
+    const response = await authRequest('/orders/42').expect(429);
+    expect(response.headers['retry-after']).toBe('50');
+    expect(response.headers['x-ratelimit-constraint']).toBe('minute');
+    expect(response.headers['x-ratelimit-remaining']).toBe('0');
+    expect(response.headers['x-user-id']).toBeUndefined();
+    expect(logRequest).not.toHaveBeenCalled();
+  });
+
+  it('charges route limits by the original path', async () => {
+    // `upload` allows 5 requests a minute
+    for (let i = 0; i < 5; i++) {
+      await authRequest(`/api/v1/upload/${i}`).expect(204);
+    }
+    await authRequest('/orders/42').expect(204);
+
+    const response = await authRequest('/api/v1/upload/5').expect(429);
+    expect(response.headers['x-ratelimit-constraint']).toBe('minute');
+  });
+});
@@ -0,0 +1,246 @@
+import request from 'supertest';
+import express from 'express';
+import redis from '../utils/redis.ts';
+import { cacheResponse } from '../middlewares/cache.ts';
+import { apiKeyRateLimitMiddleware } from '../middlewares/rateLimiter.ts';
+import { proxyRequestLogger } from '../middlewares/proxy.ts';
+import { purgeCache } from '../services/responseCacheService.ts';
+import { consumeRateLimits, logRequest } from '../services/rateLimitService.ts';
+import type { CacheOptions } from '../utils/httpCache.ts';
+
+let mockRedisReady = true;
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => mockRedisReady,
+}));
+jest.mock('../prisma.ts', () => ({ __esModule: true, prisma: {} }));
+jest.mock('../services/apiKeyService.ts', () => ({ validateApiKey: jest.fn() }));
+jest.mock('../services/rateLimitService.ts', () => ({
+  consumeRateLimits: jest.fn(),
+  getPlanConcurrencyLimit: jest.fn(),
+  getPlanQuota: jest.fn(),
+  getPlanName: jest.fn(),
+  getPlanStreamLimits: jest.fn(),
+  logRequest: jest.fn(async () => {}),
+}));
+
+const apiKeyScope: CacheOptions = { ttl: 60, scope: 'apiKey', tags: ['items'], coalesce: false };
+const sharedScope: CacheOptions = { ...apiKeyScope, scope: 'shared' };
+const coalescing: CacheOptions = { ...sharedScope, coalesce: true };
+
+// Calls that reached the handler
+let calls = 0;
+
+const app = express();
+app.use((req, _res, next) => {
+  (req as any).apiKeyId = req.get('x-key-id') || 'key-1';
+  next();
+});
+app.get('/items/:id', cacheResponse(apiKeyScope), (req, res) => {
+  res.set('Cache-Control', 'max-age=30');
+  res.json({ id: req.params.id, call: ++calls });
+});
+app.get('/shared', cacheResponse(sharedScope), (_req, res) => {
+  res.set('Cache-Control', 'max-age=30');
+  res.json({ call: ++calls });
+});
+app.get('/greeting', cacheResponse(apiKeyScope), (req, res) => {
+  res.set('Cache-Control', 'max-age=30');
+  res.vary('Accept-Language');
+  res.json({ greeting: req.get('accept-language') === 'de' ? 'Hallo' : 'Hello', call: ++calls });
+});
+
+// Answers once `respond` is called, like a slow upstream
+let respond: () => void;
+let responding: Promise<void>;
+const slow = async (req: express.Request, res: express.Response) => {
+  const call = ++calls;
+  await responding;
+  res.set('Cache-Control', 'max-age=30');
+  res.vary('Accept-Language');
+  res.json({ language: req.get('accept-language'), call });
+};
+app.get(
+  '/slow/:id',
+  apiKeyRateLimitMiddleware,
+  proxyRequestLogger,
+  cacheResponse(coalescing),
+  slow
+);
+
+// Responses are stored once they have been sent
+const stored = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('Response cache', () => {
+  beforeEach(async () => {
+    mockRedisReady = true;
+    calls = 0;
+    await redis.flushall();
+  });
+
+  it('answers a repeated GET from the cache', async () => {
+    const miss = await request(app).get('/items/1').expect(200);
+    expect(miss.headers['x-cache']).toBe('MISS');
+    await stored();
+
+    const hit = await request(app).get('/items/1').expect(200);
+    expect(hit.headers['x-cache']).toBe('HIT');
+    expect(hit.headers['age']).toBe('0');
+    expect(hit.headers['etag']).toBe(miss.headers['etag']);
+    expect(hit.body).toEqual({ id: '1', call: 1 });
+    expect(calls).toBe(1);
+  });
+
+  it('bypasses the cache for no-store requests and while Redis is unavailable', async () => {
+    await request(app).get('/items/2');
+    await stored();
+
+    const noStore = await request(app).get('/items/2').set('Cache-Control', 'no-store');
+    expect(noStore.headers['x-cache']).toBe('BYPASS');
+    expect(noStore.body.call).toBe(2);
+
+    mockRedisReady = false;
+    const unavailable = await request(app).get('/items/2');
+    expect(unavailable.headers['x-cache']).toBe('BYPASS');
+    expect(calls).toBe(3);
+  });
+
+  it('answers 304 to a hit whose ETag matches If-None-Match', async () => {
+    const { headers } = await request(app).get('/items/3');
+    await stored();
+
+    const response = await request(app)
+      .get('/items/3')
+      .set('If-None-Match', headers['etag'])
+      .expect(304);
+    expect(response.headers['x-cache']).toBe('HIT');
+    expect(response.headers['cache-control']).toBe('max-age=30');
+    expect(response.headers['content-type']).toBeUndefined();
+    expect(calls).toBe(1);
+  });
+
+  it('stores one response per Vary variant', async () => {
+    for (const language of ['en', 'de']) {
+      const response = await request(app).get('/greeting').set('Accept-Language', language);
+      expect(response.headers['x-cache']).toBe('MISS');
+      await stored();
+    }
+
+    const en = await request(app).get('/greeting').set('Accept-Language', 'en');
+    const de = await request(app).get('/greeting').set('Accept-Language', 'de');
+    expect([en.headers['x-cache'], de.headers['x-cache']]).toEqual(['HIT', 'HIT']);
+    expect(en.body).toEqual({ greeting: 'Hello', call: 1 });
+    expect(de.body).toEqual({ greeting: 'Hallo', call: 2 });
+  });
+
+  it('keeps one cache per API key unless the scope is shared', async () => {
+    await request(app).get('/items/4').set('x-key-id', 'key-1');
+    await stored();
+    const otherKey = await request(app).get('/items/4').set('x-key-id', 'key-2');
+    expect(otherKey.headers['x-cache']).toBe('MISS');
+    expect(calls).toBe(2);
+
+    await request(app).get('/shared').set('x-key-id', 'key-1');
+    await stored();
+    const shared = await request(app).get('/shared').set('x-key-id', 'key-2');
+    expect(shared.headers['x-cache']).toBe('HIT');
+    expect(calls).toBe(3);
+  });
+
+  it('purges stored responses by tag and by path prefix', async () => {
+    await request(app).get('/items/5');
+    await request(app).get('/items/5').set('x-key-id', 'key-2');
+    await request(app).get('/shared');
+    await stored();
+
+    expect(await purgeCache({ tags: ['items'] })).toBe(3);
+    expect((await request(app).get('/items/5')).headers['x-cache']).toBe('MISS');
+    await stored();
+
+    expect(await purgeCache({ prefix: '/items/' })).toBe(1);
+    expect((await request(app).get('/items/5')).headers['x-cache']).toBe('MISS');
+    expect(calls).toBe(5);
+  });
+
+  describe('coalescing', () => {
+    beforeEach(() => {
+      responding = new Promise((resolve) => (respond = resolve));
+      (consumeRateLimits as jest.Mock).mockResolvedValue({ isAllowed: true, windows: [] });
+    });
+
+    // Sends the requests one after the other, each once the previous one is in flight
+    async function inFlight(requests: request.Test[]): Promise<Promise<request.Response>[]> {
+      const sent = [];
+      for (const pending of requests) {
+        sent.push(pending.then((response) => response));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return sent;
+    }
+
+    it('makes one upstream call for concurrent identical GETs', async () => {
+      const sent = await inFlight(
+        ['key-1', 'key-2', 'key-3'].map((key) => request(app).get('/slow/1').set('x-key-id', key))
+      );
+      respond();
+      const [leader, ...waiters] = await Promise.all(sent);
+
+      expect(calls).toBe(1);
+      expect(leader.headers['x-cache']).toBe('MISS');
+      for (const waiter of waiters) {
+        expect(waiter.status).toBe(200);
+        expect(waiter.headers['x-cache']).toBe('COALESCED');
+        expect(waiter.body).toEqual(leader.body);
+      }
+
+      // Every request is charged to its own key and logged
+      expect((consumeRateLimits as jest.Mock).mock.calls).toEqual([
+        ['key-1'],
+        ['key-2'],
+        ['key-3'],
+      ]);
+      const logged = (logRequest as jest.Mock).mock.calls.map(([key, path, status]) => [
+        key,
+        path,
+        status,
+      ]);
+      expect(logged.sort()).toEqual([
+        ['key-1', '/slow/1', 200],
+        ['key-2', '/slow/1', 200],
+        ['key-3', '/slow/1', 200],
+      ]);
+    });
+
+    it('sends waiters whose Vary headers differ to the upstream', async () => {
+      const sent = await inFlight([
+        request(app).get('/slow/2').set('Accept-Language', 'en'),
+        request(app).get('/slow/2').set('Accept-Language', 'de'),
+        request(app).get('/slow/2').set('Accept-Language', 'en'),
+      ]);
+      respond();
+      const [en, de, coalesced] = await Promise.all(sent);
+
+      expect(calls).toBe(2);
+      expect(de.headers['x-cache']).toBe('MISS');
+      expect(de.body).toEqual({ language: 'de', call: 2 });
+      expect(coalesced.headers['x-cache']).toBe('COALESCED');
+      expect(coalesced.body).toEqual(en.body);
+    });
+
+    it('keeps requests asking for a fresh response out of the flight', async () => {
+      const sent = await inFlight([
+        request(app).get('/slow/3'),
+        request(app).get('/slow/3').set('Cache-Control', 'no-cache'),
+        request(app).get('/slow/3').set('Cache-Control', 'no-store'),
+      ]);
+      respond();
+      const [, noCache, noStore] = await Promise.all(sent);
+
+      expect(calls).toBe(3);
+      expect([noCache.headers['x-cache'], noStore.headers['x-cache']]).toEqual(['MISS', 'BYPASS']);
+      expect([noCache.body.call, noStore.body.call]).toEqual([2, 3]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import redis from '../utils/redis.ts';
+import {
+  acquireCircuit,
+  getCircuitState,
+  setCircuitState,
+  type CircuitBreakerConfig,
+} from '../services/circuitBreakerService.ts';
+import { ServiceUnavailableError } from '../utils/errors.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+
+const config: CircuitBreakerConfig = {
+  windowMs: 10_000,
+  minRequests: 4,
+  errorRate: 0.5,
+  openMs: 5_000,
+  halfOpenRequests: 2,
+};
+
+let now = 1_700_000_000_000;
+
+async function call(failed: boolean): Promise<void> {
+  const circuit = await acquireCircuit('orders', config);
+  await circuit.record({ failed, durationMs: 10 });
+}
+
+async function openBreaker(): Promise<void> {
+  for (const failed of [false, false, true, true]) {
+    await call(failed);
+  }
+}
+
+describe('Circuit breaker', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('opens once the failure rate is reached and fails fast while open', async () => {
+    await call(true);
+    await call(true);
+    await call(false);
+    expect((await getCircuitState('orders', config)).state).toBe('closed');
+
+    await call(true);
+    expect((await getCircuitState('orders', config)).state).toBe('open');
+
+    const rejected = acquireCircuit('orders', config);
+    await expect(rejected).rejects.toBeInstanceOf(ServiceUnavailableError);
+    await expect(rejected).rejects.toMatchObject({ details: { circuit: 'open', retryAfter: 5 } });
+  });
+
+  it('closes after its half-open probes succeed and reopens on a failed one', async () => {
+    await openBreaker();
+    now += config.openMs;
+
+    const first = await acquireCircuit('orders', config);
+    const second = await acquireCircuit('orders', config);
+    await expect(acquireCircuit('orders', config)).rejects.toMatchObject({
+      details: { circuit: 'half_open' },
+    });
+
+    await first.record({ failed: false, durationMs: 10 });
+    expect((await getCircuitState('orders', config)).state).toBe('half_open');
+    await second.record({ failed: false, durationMs: 10 });
+    expect((await getCircuitState('orders', config)).state).toBe('closed');
+
+    await openBreaker();
+    now += config.openMs;
+    await call(true);
+    expect((await getCircuitState('orders', config)).state).toBe('open');
+  });
+
+  it('frees the slot of a released probe without counting an outcome', async () => {
+    await openBreaker();
+    now += config.openMs;
+
+    const first = await acquireCircuit('orders', config);
+    await acquireCircuit('orders', config);
+    await first.release();
+    await first.record({ failed: true, durationMs: 10 });
+
+    await expect(acquireCircuit('orders', config)).resolves.toBeDefined();
+    expect((await getCircuitState('orders', config)).state).toBe('half_open');
+  });
+
+  it('can be forced open and closed', async () => {
+    await call(true);
+    await setCircuitState('orders', config, 'open');
+    await expect(acquireCircuit('orders', config)).rejects.toMatchObject({
+      details: { circuit: 'open' },
+    });
+
+    await setCircuitState('orders', config, 'closed');
+    const state = await getCircuitState('orders', config);
+    expect(state.state).toBe('closed');
+    expect(state.window).toEqual({ requests: 0, failures: 0, slowCalls: 0 });
+    await expect(acquireCircuit('orders', config)).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,131 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import express from 'express';
+import redis from '../utils/redis.ts';
+import { errorHandler } from '../middlewares/errorHandler.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+jest.mock('../prisma.ts', () => ({ __esModule: true, prisma: {} }));
+// Plan limits (Postgres) aren't involved in configured limiters
+jest.mock('../services/rateLimitService.ts', () => ({
+  consumeRateLimits: jest.fn(),
+  getPlanConcurrencyLimit: jest.fn(),
+  getPlanQuota: jest.fn(),
+}));
+
+// Leases are renewed on an interval set up when the service loads, on the fake clock
+jest.useFakeTimers({ now: 1_700_000_000_000, doNotFake: ['nextTick', 'setImmediate'] });
+const { acquireLease } =
+  require('../services/concurrencyService.ts') as typeof import('../services/concurrencyService.ts');
+const { createConcurrencyLimiter } =
+  require('../middlewares/rateLimiter.ts') as typeof import('../middlewares/rateLimiter.ts');
+
+describe('Concurrency leases', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+  });
+
+  it('caps leases per key and frees them on release', async () => {
+    const first = await acquireLease('uploads:key-1', 2);
+    const second = await acquireLease('uploads:key-1', 2);
+    expect([first.allowed, second.active]).toEqual([true, 2]);
+
+    const rejected = await acquireLease('uploads:key-1', 2);
+    expect(rejected).toMatchObject({ allowed: false, limit: 2, active: 2 });
+    expect((await acquireLease('uploads:key-2', 2)).allowed).toBe(true);
+
+    await first.release();
+    await first.release();
+    expect(await redis.zcard('rlc:uploads:key-1')).toBe(1);
+    expect((await acquireLease('uploads:key-1', 2)).allowed).toBe(true);
+  });
+
+  it('keeps renewing held leases and reclaims those nobody renews', async () => {
+    const held = await acquireLease('uploads:key-1', 2);
+    // A lease of an instance that went away
+    await redis.zadd('rlc:uploads:key-1', Date.now() + 30_000, 'crashed');
+
+    await jest.advanceTimersByTimeAsync(31_000);
+    const lease = await acquireLease('uploads:key-1', 2);
+    expect(lease).toMatchObject({ allowed: true, active: 2 });
+    expect(await redis.zscore('rlc:uploads:key-1', 'crashed')).toBeNull();
+
+    await held.release();
+    await lease.release();
+  });
+});
+
+describe('Concurrency limiter middleware', () => {
+  beforeAll(() => {
+    jest.useRealTimers();
+  });
+
+  let entered: () => void = () => {};
+  let gate: Promise<void> = Promise.resolve();
+
+  const app = express();
+  app.use((req, _res, next) => {
+    (req as any).apiKeyId = 'key-1';
+    next();
+  });
+  app.use(
+    createConcurrencyLimiter({ name: 'uploads', maxConcurrent: 1, identifierType: 'apiKey' })
+  );
+  app.get('/upload', async (_req, res) => {
+    entered();
+    await gate;
+    res.status(200).end();
+  });
+  app.use(errorHandler);
+
+  beforeEach(async () => {
+    await redis.flushall();
+  });
+
+  function hold(): { running: Promise<void>; release: () => void } {
+    let release: () => void = () => {};
+    gate = new Promise((resolve) => (release = resolve));
+    const running = new Promise<void>((resolve) => (entered = resolve));
+    return { running, release };
+  }
+
+  it('releases the lease once the response finishes', async () => {
+    const { running, release } = hold();
+    const first = request(app)
+      .get('/upload')
+      .then((response) => response);
+    await running;
+
+    const rejected = await request(app).get('/upload').expect(429);
+    expect(rejected.body.error.code).toBe('CONCURRENCY_LIMIT_EXCEEDED');
+
+    release();
+    expect((await first).status).toBe(200);
+    gate = Promise.resolve();
+    await request(app).get('/upload').expect(200);
+  });
+
+  it('releases the lease when the client goes away', async () => {
+    const server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const { running, release } = hold();
+
+    const aborted = http.get(`http://127.0.0.1:${port}/upload`);
+    aborted.on('error', () => {});
+    await running;
+    expect(await redis.zcard('rlc:uploads:key-1')).toBe(1);
+
+    aborted.destroy();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(await redis.zcard('rlc:uploads:key-1')).toBe(0);
+
+    release();
+    await new Promise((resolve) => server.close(resolve));
+  });
+});
@@ -0,0 +1,93 @@
+import redis from '../utils/redis.ts';
+import { shouldRateLimit } from '../services/envoyRateLimitService.ts';
+import { peekLimit } from '../services/rateLimitAlgorithms.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+jest.mock('../prisma.ts', () => ({ __esModule: true, prisma: {} }));
+// Plan limits (Postgres) aren't involved in policy limiters
+jest.mock('../services/rateLimitService.ts', () => ({
+  consumeRateLimits: jest.fn(),
+  getPlanConcurrencyLimit: jest.fn(),
+  getPlanQuota: jest.fn(),
+}));
+
+// 100s into a window of the shipped `auth` limiter (5 per 15 minutes per IP)
+const now = 1_700_100_100_000;
+
+function check(entries: Array<[string, string]>, hits: number = 0) {
+  return shouldRateLimit({
+    domain: 'edge',
+    descriptors: [{ entries: entries.map(([key, value]) => ({ key, value })) }],
+    hits_addend: hits,
+  });
+}
+
+describe('Envoy rate limit service', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const client: Array<[string, string]> = [
+    ['generic_key', 'auth'],
+    ['remote_address', '203.0.113.7'],
+  ];
+
+  it('counts a descriptor against the limiter it names, keyed like the HTTP middleware', async () => {
+    const response = await check(client);
+
+    expect(response.overall_code).toBe('OK');
+    expect(response.statuses[0]).toEqual({
+      code: 'OK',
+      current_limit: { name: 'auth', requests_per_unit: 20, unit: 'HOUR' },
+      limit_remaining: 4,
+      duration_until_reset: { seconds: 800, nanos: 0 },
+    });
+    expect(response.response_headers_to_add).toEqual(
+      expect.arrayContaining([{ key: 'ratelimit-policy', value: expect.stringContaining('auth') }])
+    );
+
+    const decision = await peekLimit('sliding-window', 'auth:203.0.113.7', {
+      windowMs: 900_000,
+      maxRequests: 5,
+    });
+    expect(decision.remaining).toBe(4);
+  });
+
+  it('answers OVER_LIMIT once the limit is spent, per identifier', async () => {
+    expect((await check(client, 4)).statuses[0].limit_remaining).toBe(1);
+    expect((await check(client)).statuses[0].limit_remaining).toBe(0);
+
+    const rejected = await check(client);
+    expect(rejected.overall_code).toBe('OVER_LIMIT');
+    expect(rejected.statuses[0]).toMatchObject({
+      code: 'OVER_LIMIT',
+      limit_remaining: 0,
+      duration_until_reset: { seconds: 800, nanos: 0 },
+    });
+
+    const other = await check([
+      ['generic_key', 'auth'],
+      ['remote_address', '203.0.113.8'],
+    ]);
+    expect(other.overall_code).toBe('OK');
+  });
+
+  it('reports descriptors naming no limiter OK without a limit', async () => {
+    const response = await check([['generic_key', 'unknown']]);
+
+    expect(response).toEqual({
+      overall_code: 'OK',
+      statuses: [{ code: 'OK' }],
+      response_headers_to_add: [],
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  acceptsStored,
+  etagMatches,
+  responseLifetime,
+  storableHeaders,
+  variantId,
+  varyHeaders,
+  type CacheOptions,
+} from '../utils/httpCache.ts';
+
+const perKey: CacheOptions = { ttl: 60, scope: 'apiKey', tags: [], coalesce: false };
+const shared: CacheOptions = { ttl: 60, scope: 'shared', tags: [], coalesce: false };
+
+describe('HTTP cache rules', () => {
+  it('stores for the route ttl, shortened by the response directives', () => {
+    expect(responseLifetime(200, {}, perKey)).toBe(60);
+    expect(responseLifetime(200, { 'cache-control': 'max-age=10' }, perKey)).toBe(10);
+    expect(responseLifetime(200, { 'cache-control': 'max-age=3600' }, perKey)).toBe(60);
+    expect(responseLifetime(200, { 'cache-control': 'max-age=30, s-maxage=5' }, shared)).toBe(5);
+    expect(responseLifetime(200, { 'cache-control': 'max-age=30, s-maxage=5' }, perKey)).toBe(30);
+  });
+
+  it('refuses responses that must not be stored', () => {
+    expect(responseLifetime(404, {}, perKey)).toBe(0);
+    expect(responseLifetime(200, { 'cache-control': 'no-store' }, perKey)).toBe(0);
+    expect(responseLifetime(200, { 'cache-control': 'no-cache' }, perKey)).toBe(0);
+    expect(responseLifetime(200, { vary: '*' }, perKey)).toBe(0);
+    expect(responseLifetime(200, { 'content-type': 'text/event-stream' }, perKey)).toBe(0);
+    // private and cookies are fine for one API key, not for every caller
+    expect(responseLifetime(200, { 'cache-control': 'private' }, perKey)).toBe(60);
+    expect(responseLifetime(200, { 'cache-control': 'private' }, shared)).toBe(0);
+    expect(responseLifetime(200, { 'set-cookie': ['a=1'] }, shared)).toBe(0);
+  });
+
+  it('selects variants by the Vary request headers', () => {
+    const vary = varyHeaders({ vary: 'Accept, accept-language', 'content-encoding': 'gzip' })!;
+    expect(vary).toEqual(['accept', 'accept-encoding', 'accept-language']);
+
+    const json = variantId({ accept: 'application/json', 'x-other': '1' }, vary);
+    expect(variantId({ accept: 'application/json', 'x-other': '2' }, vary)).toBe(json);
+    expect(variantId({ accept: 'text/html' }, vary)).not.toBe(json);
+  });
+
+  it('honors request freshness limits and validators', () => {
+    expect(acceptsStored({}, 100)).toBe(true);
+    expect(acceptsStored({ 'cache-control': 'max-age=30' }, 31)).toBe(false);
+    expect(acceptsStored({ 'cache-control': 'no-cache' }, 0)).toBe(false);
+    expect(acceptsStored({ pragma: 'no-cache' }, 0)).toBe(false);
+
+    expect(etagMatches('"a", W/"b"', '"b"')).toBe(true);
+    expect(etagMatches('"a"', 'W/"a"')).toBe(true);
+    expect(etagMatches('*', '"c"')).toBe(true);
+    expect(etagMatches('"a"', '"c"')).toBe(false);
+  });
+
+  it('does not store per-exchange headers', () => {
+    expect(
+      storableHeaders({
+        'Content-Type': 'application/json',
+        ETag: '"1"',
+        'Set-Cookie': ['a=1'],
+        'X-RateLimit-Remaining': 9,
+        RateLimit: 'limit=10',
+        'X-Request-Id': 'abc',
+        'Content-Length': 10,
+      })
+    ).toEqual({ 'content-type': 'application/json', etag: '"1"' });
+  });
+});
@@ -0,0 +1,127 @@
+import request from 'supertest';
+import express from 'express';
+import redis from '../utils/redis.ts';
+import { idempotencyMiddleware } from '../middlewares/idempotency.ts';
+import { asyncMiddleware, errorHandler } from '../middlewares/errorHandler.ts';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+} from '../services/idempotencyService.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+
+let created = 0;
+let failNext = false;
+let entered: () => void = () => {};
+let gate: Promise<void> = Promise.resolve();
+
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  (req as any).userId = 'user-1';
+  next();
+});
+app.use(asyncMiddleware(idempotencyMiddleware));
+app.post('/api-keys', async (_req, res) => {
+  entered();
+  await gate;
+  if (failNext) {
+    failNext = false;
+    res.status(500).json({ success: false });
+    return;
+  }
+  created++;
+  res.status(201).json({ success: true, data: { key: `rlk_secret_${created}` } });
+});
+app.use(errorHandler);
+
+// Responses are settled once the server closes them, just after the client has them
+const settled = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+function create(key: string, body: object = { name: 'ci' }) {
+  return request(app).post('/api-keys').set('Idempotency-Key', key).send(body);
+}
+
+describe('Idempotency-Key', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    created = 0;
+    gate = Promise.resolve();
+    entered = () => {};
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('replays the first response to retries without storing it readably', async () => {
+    const first = await create('key-1').expect(201);
+    await settled();
+    const retry = await create('key-1').expect(201);
+
+    expect(created).toBe(1);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+
+    const [, keys] = await redis.scan('0', 'MATCH', 'idem:*');
+    expect(keys).toHaveLength(1);
+    expect(await redis.get(keys[0])).not.toContain('rlk_secret_1');
+  });
+
+  it('rejects a key reused for a different request with 422', async () => {
+    await create('key-2').expect(201);
+    await settled();
+
+    const response = await create('key-2', { name: 'other' }).expect(422);
+    expect(response.body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(created).toBe(1);
+  });
+
+  it('answers 409 while the first request is still running', async () => {
+    let release: () => void = () => {};
+    gate = new Promise((resolve) => (release = resolve));
+    const running = new Promise<void>((resolve) => (entered = resolve));
+
+    const first = create('key-3').then((response) => response);
+    await running;
+    const duplicate = await create('key-3').expect(409);
+    expect(duplicate.headers['retry-after']).toBe('1');
+
+    release();
+    expect((await first).status).toBe(201);
+  });
+
+  it('keeps no 5xx response, so the request can be retried', async () => {
+    failNext = true;
+    await create('key-4').expect(500);
+    await settled();
+
+    const retry = await create('key-4').expect(201);
+    expect(retry.headers['idempotent-replayed']).toBeUndefined();
+    expect(created).toBe(1);
+  });
+
+  it('does not let an expired claim overwrite the request that took the key over', async () => {
+    const now = Date.now();
+    const response = { status: 201, headers: {}, body: Buffer.from('second') };
+    const first = await beginIdempotentRequest('user-1', 'key-5', 'fp');
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61_000);
+    const second = await beginIdempotentRequest('user-1', 'key-5', 'fp');
+    if (!('claim' in first) || !('claim' in second)) throw new Error('key not claimed');
+
+    expect(await completeIdempotentRequest(second.claim, response)).toBe(true);
+    expect(
+      await completeIdempotentRequest(first.claim, { ...response, body: Buffer.from('first') })
+    ).toBe(false);
+
+    const replay = await beginIdempotentRequest('user-1', 'key-5', 'fp');
+    expect(replay).toMatchObject({ existing: { state: 'completed' } });
+    if ('existing' in replay && replay.existing.state === 'completed') {
+      expect(replay.existing.response.body.toString()).toBe('second');
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import request from 'supertest';
+import express from 'express';
+import redis from '../utils/redis.ts';
+import { getLimitsController } from '../controllers/limitsController.ts';
+import { createPolicyRateLimiter } from '../middlewares/rateLimiter.ts';
+import { createRouteRateLimiter, type RouteRateLimit } from '../middlewares/routeRateLimiter.ts';
+import * as policyService from '../services/policyService.ts';
+import { errorHandler } from '../middlewares/errorHandler.ts';
+
+let mockRedisReady = true;
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => mockRedisReady,
+}));
+jest.mock('../prisma.ts', () => ({ __esModule: true, prisma: {} }));
+// Plan windows are covered by the plan limiter; only policy limiters are inspected here
+jest.mock('../services/rateLimitService.ts', () => ({
+  checkRateLimits: async () => ({ scope: 'key', windows: [] }),
+  consumeRateLimits: jest.fn(),
+  getPlanConcurrencyLimit: jest.fn(),
+  getPlanQuota: jest.fn(),
+}));
+
+// Route limit kept in process while Redis is unavailable
+const orders: RouteRateLimit = {
+  name: 'orders',
+  pattern: /^\/orders/,
+  requestsPerMinute: 10,
+  failureMode: 'fallback',
+};
+
+const app = express();
+app.use((req, _res, next) => {
+  (req as any).apiKeyId = 'key-1';
+  next();
+});
+app.post('/api/v1/auth/login', createPolicyRateLimiter('auth'), (_req, res) => {
+  res.status(200).end();
+});
+app.get('/orders', createRouteRateLimiter([orders]), (_req, res) => {
+  res.status(200).end();
+});
+app.get('/api/v1/limits', getLimitsController);
+app.use(errorHandler);
+
+function limiter(body: any, name: string) {
+  return body.data.limits.find((limit: any) => limit.type === 'limiter' && limit.name === name);
+}
+
+function routeWindows(body: any, route: string) {
+  return body.data.limits.filter(
+    (limit: any) => limit.type === 'route' && limit.name.startsWith(`route:${route}:`)
+  );
+}
+
+describe('GET /api/v1/limits', () => {
+  beforeEach(async () => {
+    mockRedisReady = true;
+    await redis.flushall();
+    const policy = policyService.getPolicy();
+    jest.spyOn(policyService, 'getPolicy').mockReturnValue({
+      ...policy,
+      routes: [orders, ...policy.routes],
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports global limiters without consuming from them', async () => {
+    await request(app).post('/api/v1/auth/login').expect(200);
+
+    await request(app).get('/api/v1/limits').expect(200);
+    const response = await request(app).get('/api/v1/limits').expect(200);
+    expect(response.body.data.degraded).toBe(false);
+    expect(limiter(response.body, 'auth')).toMatchObject({ limit: 5, used: 1, remaining: 4 });
+  });
+
+  it('names the window of plan and route limits and the algorithm of limiters', async () => {
+    const response = await request(app).get('/api/v1/limits').expect(200);
+
+    expect(routeWindows(response.body, 'orders')).toEqual([
+      expect.objectContaining({ name: 'route:orders:minute', window: 'minute', windowMs: 60_000 }),
+    ]);
+    expect(limiter(response.body, 'auth')).toMatchObject({
+      algorithm: 'sliding-window',
+      windowMs: 900_000,
+    });
+    expect(limiter(response.body, 'auth')).not.toHaveProperty('window');
+  });
+
+  it("applies each limiter's failure policy while Redis is unavailable", async () => {
+    mockRedisReady = false;
+    await request(app).post('/api/v1/auth/login').expect(200);
+
+    const response = await request(app).get('/api/v1/limits').expect(200);
+    expect(response.body.data.degraded).toBe(true);
+    // `auth` falls back to the in-process limiter that counted the login
+    expect(limiter(response.body, 'auth')).toMatchObject({ limit: 5, used: 1, remaining: 4 });
+    // `apiKeyGlobal` fails closed: nothing to report
+    expect(limiter(response.body, 'apiKeyGlobal')).toBeUndefined();
+  });
+
+  it('reports route limits falling back to the in-process limiter while Redis is unavailable', async () => {
+    mockRedisReady = false;
+    await request(app).get('/orders').expect(200);
+
+    const response = await request(app).get('/api/v1/limits').expect(200);
+    expect(response.body.data.degraded).toBe(true);
+    expect(routeWindows(response.body, 'orders')).toEqual([
+      expect.objectContaining({ window: 'minute', limit: 10, used: 1, remaining: 9 }),
+    ]);
+    // The shipped routes fail closed
+    expect(routeWindows(response.body, 'upload')).toEqual([]);
+  });
+});
@@ -0,0 +1,555 @@
+/**
+ * In-memory Redis for tests
+ * Runs the services' Lua scripts for real (EVALSHA / SCRIPT LOAD) on a Lua VM, against
+ * a small implementation of the commands they use. Keys expire by Date.now(), so tests
+ * move time with jest.spyOn(Date, 'now'). The VM is Lua 5.3 with 32-bit integers, where
+ * Redis has Lua 5.1: scripts see large numbers such as timestamps as floats.
+ */
+
+import crypto from 'crypto';
+import { lauxlib, lua, lualib, to_luastring } from 'fengari';
+
+const COMMANDS_LUA = `
+local store, expires = {}, {}
+
+local function live(key)
+  local at = expires[key]
+  if at and at <= NOW_MS then
+    store[key], expires[key] = nil, nil
+  end
+  return store[key]
+end
+
+local function typed(key, kind)
+  local value = live(key)
+  if value == nil then
+    value = {kind = kind, data = {}}
+    store[key] = value
+  elseif type(value) ~= 'table' or value.kind ~= kind then
+    error('WRONGTYPE Operation against a key holding the wrong kind of value')
+  end
+  return value.data
+end
+
+local function existing(key, kind)
+  local value = live(key)
+  if value == nil then return {} end
+  if type(value) ~= 'table' or value.kind ~= kind then
+    error('WRONGTYPE Operation against a key holding the wrong kind of value')
+  end
+  return value.data
+end
+
+local function count(t)
+  local n = 0
+  for _ in pairs(t) do n = n + 1 end
+  return n
+end
+
+local function score(value)
+  if value == '-inf' then return -math.huge, false end
+  if value == '+inf' or value == 'inf' then return math.huge, false end
+  if string.sub(value, 1, 1) == '(' then return tonumber(string.sub(value, 2)), true end
+  return tonumber(value), false
+end
+
+local function inRange(s, min, max)
+  local lo, loOpen = score(min)
+  local hi, hiOpen = score(max)
+  return (loOpen and s > lo or not loOpen and s >= lo) and (hiOpen and s < hi or not hiOpen and s <= hi)
+end
+
+-- fengari's integers are 32 bits: timestamps are floats, formatted like Redis does
+local function number(n)
+  if math.type(n) == 'float' and n == math.floor(n) and math.abs(n) < 2^53 then
+    return string.format('%.0f', n)
+  end
+  return tostring(n)
+end
+
+local function sorted(z)
+  local members = {}
+  for member, s in pairs(z) do members[#members + 1] = {member, s} end
+  table.sort(members, function(a, b)
+    if a[2] == b[2] then return a[1] < b[1] end
+    return a[2] < b[2]
+  end)
+  return members
+end
+
+local function glob(pattern)
+  return '^' .. string.gsub(pattern, '[%^%$%(%)%%%.%[%]%+%-%?%*]', function(c)
+    if c == '*' then return '.*' end
+    if c == '?' then return '.' end
+    return '%' .. c
+  end) .. '$'
+end
+
+local commands = {}
+
+function commands.FLUSHALL()
+  store, expires = {}, {}
+  return {ok = 'OK'}
+end
+
+function commands.PING() return {ok = 'PONG'} end
+
+function commands.GET(key)
+  local value = live(key)
+  if value == nil then return false end
+  if type(value) ~= 'string' then error('WRONGTYPE Operation against a key holding the wrong kind of value') end
+  return value
+end
+
+function commands.SET(key, value, ...)
+  local options, nx, xx, ttl = {...}, false, false, nil
+  local i = 1
+  while i <= #options do
+    local option = string.upper(options[i])
+    if option == 'NX' then nx = true
+    elseif option == 'XX' then xx = true
+    elseif option == 'PX' then ttl = tonumber(options[i + 1]); i = i + 1
+    elseif option == 'EX' then ttl = tonumber(options[i + 1]) * 1000; i = i + 1
+    end
+    i = i + 1
+  end
+  local exists = live(key) ~= nil
+  if (nx and exists) or (xx and not exists) then return false end
+  store[key] = value
+  expires[key] = ttl and NOW_MS + ttl or nil
+  return {ok = 'OK'}
+end
+
+function commands.INCRBY(key, by)
+  local value = (tonumber(commands.GET(key)) or 0) + tonumber(by)
+  store[key] = number(value)
+  return value
+end
+
+function commands.INCR(key) return commands.INCRBY(key, '1') end
+function commands.DECRBY(key, by) return commands.INCRBY(key, number(-tonumber(by))) end
+
+function commands.PEXPIRE(key, ms)
+  if live(key) == nil then return 0 end
+  expires[key] = NOW_MS + tonumber(ms)
+  return 1
+end
+
+function commands.EXPIRE(key, seconds) return commands.PEXPIRE(key, tonumber(seconds) * 1000) end
+
+function commands.PTTL(key)
+  if live(key) == nil then return -2 end
+  if not expires[key] then return -1 end
+  return expires[key] - NOW_MS
+end
+
+function commands.TTL(key)
+  local ms = commands.PTTL(key)
+  if ms < 0 then return ms end
+  return math.floor((ms + 500) / 1000)
+end
+
+function commands.DEL(...)
+  local n = 0
+  for _, key in ipairs({...}) do
+    if live(key) ~= nil then n = n + 1 end
+    store[key], expires[key] = nil, nil
+  end
+  return n
+end
+
+function commands.EXISTS(...)
+  local n = 0
+  for _, key in ipairs({...}) do
+    if live(key) ~= nil then n = n + 1 end
+  end
+  return n
+end
+
+function commands.HGET(key, field)
+  local value = existing(key, 'hash')[field]
+  if value == nil then return false end
+  return value
+end
+
+function commands.HMGET(key, ...)
+  local h, values = existing(key, 'hash'), {}
+  for i, field in ipairs({...}) do values[i] = h[field] or false end
+  return values
+end
+
+function commands.HSET(key, ...)
+  local h, pairs_, added = typed(key, 'hash'), {...}, 0
+  for i = 1, #pairs_, 2 do
+    if h[pairs_[i]] == nil then added = added + 1 end
+    h[pairs_[i]] = pairs_[i + 1]
+  end
+  return added
+end
+
+function commands.HSETNX(key, field, value)
+  local h = typed(key, 'hash')
+  if h[field] ~= nil then return 0 end
+  h[field] = value
+  return 1
+end
+
+function commands.HINCRBY(key, field, by)
+  local h = typed(key, 'hash')
+  local value = (tonumber(h[field]) or 0) + tonumber(by)
+  h[field] = number(value)
+  return value
+end
+
+function commands.HDEL(key, ...)
+  local h, n = existing(key, 'hash'), 0
+  for _, field in ipairs({...}) do
+    if h[field] ~= nil then n = n + 1 end
+    h[field] = nil
+  end
+  if live(key) ~= nil and next(h) == nil then commands.DEL(key) end
+  return n
+end
+
+function commands.HGETALL(key)
+  local values = {}
+  for field, value in pairs(existing(key, 'hash')) do
+    values[#values + 1] = field
+    values[#values + 1] = value
+  end
+  return values
+end
+
+function commands.HLEN(key) return count(existing(key, 'hash')) end
+
+function commands.ZADD(key, ...)
+  local args, flags, first = {...}, {}, 1
+  while args[first] and not tonumber(args[first]) do
+    flags[string.upper(args[first])] = true
+    first = first + 1
+  end
+  local z, added = typed(key, 'zset'), 0
+  for i = first, #args, 2 do
+    local exists = z[args[i + 1]] ~= nil
+    if (exists and not flags.NX) or (not exists and not flags.XX) then
+      if not exists then added = added + 1 end
+      z[args[i + 1]] = tonumber(args[i])
+    end
+  end
+  if next(z) == nil then commands.DEL(key) end
+  return added
+end
+
+function commands.ZREM(key, ...)
+  local z, n = existing(key, 'zset'), 0
+  for _, member in ipairs({...}) do
+    if z[member] ~= nil then n = n + 1 end
+    z[member] = nil
+  end
+  if live(key) ~= nil and next(z) == nil then commands.DEL(key) end
+  return n
+end
+
+function commands.ZCARD(key) return count(existing(key, 'zset')) end
+
+function commands.ZSCORE(key, member)
+  local s = existing(key, 'zset')[member]
+  if s == nil then return false end
+  return number(s)
+end
+
+function commands.ZREMRANGEBYSCORE(key, min, max)
+  local z, n = existing(key, 'zset'), 0
+  for member, s in pairs(z) do
+    if inRange(s, min, max) then
+      z[member] = nil
+      n = n + 1
+    end
+  end
+  if live(key) ~= nil and next(z) == nil then commands.DEL(key) end
+  return n
+end
+
+function commands.ZRANGE(key, start, stop, withScores)
+  local members, values = sorted(existing(key, 'zset')), {}
+  local first, last = tonumber(start), tonumber(stop)
+  if first < 0 then first = #members + first end
+  if last < 0 then last = #members + last end
+  for i = math.max(first, 0), math.min(last, #members - 1) do
+    values[#values + 1] = members[i + 1][1]
+    if withScores then values[#values + 1] = number(members[i + 1][2]) end
+  end
+  return values
+end
+
+function commands.SADD(key, ...)
+  local s, n = typed(key, 'set'), 0
+  for _, member in ipairs({...}) do
+    if not s[member] then n = n + 1 end
+    s[member] = true
+  end
+  return n
+end
+
+function commands.SREM(key, ...)
+  local s, n = existing(key, 'set'), 0
+  for _, member in ipairs({...}) do
+    if s[member] then n = n + 1 end
+    s[member] = nil
+  end
+  if live(key) ~= nil and next(s) == nil then commands.DEL(key) end
+  return n
+end
+
+function commands.SMEMBERS(key)
+  local members = {}
+  for member in pairs(existing(key, 'set')) do members[#members + 1] = member end
+  table.sort(members)
+  return members
+end
+
+function commands.SCAN(_, ...)
+  local options, match = {...}, '*'
+  for i = 1, #options, 2 do
+    if string.upper(options[i]) == 'MATCH' then match = options[i + 1] end
+  end
+  local keys = {}
+  for key in pairs(store) do
+    if live(key) ~= nil and string.find(key, glob(match)) then keys[#keys + 1] = key end
+  end
+  table.sort(keys)
+  return {'0', keys}
+end
+
+redis = {}
+
+-- Like Redis, numbers passed to redis.call become strings
+function redis.call(command, ...)
+  local handler = commands[string.upper(command)]
+  if not handler then error('ERR unknown command ' .. command) end
+  local args = {...}
+  for i = 1, select('#', ...) do
+    if type(args[i]) == 'number' then args[i] = number(args[i]) end
+  end
+  return handler(table.unpack(args, 1, select('#', ...)))
+end
+`;
+
+type Reply = string | number | null | Reply[];
+
+// Commands the client exposes, as ioredis methods
+const CLIENT_COMMANDS = [
+  'flushall',
+  'ping',
+  'get',
+  'set',
+  'incr',
+  'incrby',
+  'decrby',
+  'pexpire',
+  'expire',
+  'pttl',
+  'ttl',
+  'del',
+  'exists',
+  'hget',
+  'hmget',
+  'hset',
+  'hsetnx',
+  'hincrby',
+  'hdel',
+  'hgetall',
+  'hlen',
+  'zadd',
+  'zrem',
+  'zcard',
+  'zscore',
+  'zremrangebyscore',
+  'zrange',
+  'sadd',
+  'srem',
+  'smembers',
+  'scan',
+] as const;
+
+type Command = (typeof CLIENT_COMMANDS)[number];
+
+export type LuaRedis = {
+  [name in Command]: (...args: unknown[]) => Promise<any>;
+} & {
+  evalsha: (sha: string, numKeys: number, ...rest: Array<string | number>) => Promise<any>;
+  script: (subcommand: string, source: string) => Promise<string>;
+  pipeline: () => any;
+  multi: () => any;
+  on: () => void;
+  status: string;
+};
+
+/**
+ * A fresh in-memory Redis with the parts of the ioredis client the gateway uses
+ */
+export function createLuaRedis(): LuaRedis {
+  const L = lauxlib.luaL_newstate();
+  lualib.luaL_openlibs(L);
+  if (lauxlib.luaL_dostring(L, to_luastring(COMMANDS_LUA)) !== lua.LUA_OK) {
+    throw new Error(lua.lua_tojsstring(L, -1));
+  }
+  const scripts = new Map<string, number>();
+
+  function pushStrings(values: Array<string | number>): void {
+    lua.lua_createtable(L, values.length, 0);
+    values.forEach((value, i) => {
+      lua.lua_pushstring(L, to_luastring(String(value)));
+      lua.lua_rawseti(L, -2, i + 1);
+    });
+  }
+
+  // Converts the value on top of the stack the way Redis converts Lua replies, and pops it
+  function popReply(): Reply {
+    let reply: Reply;
+    switch (lua.lua_type(L, -1)) {
+      case lua.LUA_TNUMBER:
+        reply = Math.trunc(lua.lua_tonumber(L, -1));
+        break;
+      case lua.LUA_TSTRING:
+        reply = lua.lua_tojsstring(L, -1);
+        break;
+      case lua.LUA_TBOOLEAN:
+        reply = lua.lua_toboolean(L, -1) ? 1 : null;
+        break;
+      case lua.LUA_TTABLE: {
+        if (lua.lua_getfield(L, -1, to_luastring('ok')) === lua.LUA_TSTRING) {
+          reply = lua.lua_tojsstring(L, -1);
+          lua.lua_pop(L, 1);
+          break;
+        }
+        lua.lua_pop(L, 1);
+        if (lua.lua_getfield(L, -1, to_luastring('err')) === lua.LUA_TSTRING) {
+          const message = lua.lua_tojsstring(L, -1);
+          lua.lua_pop(L, 2);
+          throw new Error(message);
+        }
+        lua.lua_pop(L, 1);
+        const items: Reply[] = [];
+        for (let i = 1; lua.lua_geti(L, -1, i) !== lua.LUA_TNIL; i++) {
+          items.push(popReply());
+        }
+        lua.lua_pop(L, 1);
+        reply = items;
+        break;
+      }
+      default:
+        reply = null;
+    }
+    lua.lua_pop(L, 1);
+    return reply;
+  }
+
+  // Calls the function below its `nargs` arguments on the stack
+  function call(nargs: number): Reply {
+    if (lua.lua_pcall(L, nargs, 1, 0) !== lua.LUA_OK) {
+      const message = lua.lua_tojsstring(L, -1);
+      lua.lua_pop(L, 1);
+      throw new Error(message.replace(/^.*?:\d+: /, ''));
+    }
+    return popReply();
+  }
+
+  function setNow(): void {
+    lua.lua_pushnumber(L, Date.now());
+    lua.lua_setglobal(L, to_luastring('NOW_MS'));
+  }
+
+  function command(name: string, args: unknown[]): Reply {
+    const flat = args.flatMap((arg) =>
+      arg && typeof arg === 'object' && !Array.isArray(arg)
+        ? Object.entries(arg).flat()
+        : arg === undefined
+          ? []
+          : [arg]
+    );
+    setNow();
+    lua.lua_getglobal(L, to_luastring('redis'));
+    lua.lua_getfield(L, -1, to_luastring('call'));
+    lua.lua_remove(L, -2);
+    lua.lua_pushstring(L, to_luastring(name));
+    for (const arg of flat) {
+      lua.lua_pushstring(L, to_luastring(String(arg)));
+    }
+    const reply = call(flat.length + 1);
+
+    // ioredis returns HGETALL as an object and the SCAN cursor as a string
+    if (name === 'hgetall' && Array.isArray(reply)) {
+      const hash: Record<string, string> = {};
+      for (let i = 0; i < reply.length; i += 2) hash[reply[i] as string] = reply[i + 1] as string;
+      return hash as any;
+    }
+    return reply;
+  }
+
+  function evalsha(sha: string, numKeys: number, ...rest: Array<string | number>): Reply {
+    const ref = scripts.get(sha);
+    if (ref === undefined) {
+      throw new Error('NOSCRIPT No matching script. Please use EVAL.');
+    }
+    setNow();
+    pushStrings(rest.slice(0, numKeys));
+    lua.lua_setglobal(L, to_luastring('KEYS'));
+    pushStrings(rest.slice(numKeys));
+    lua.lua_setglobal(L, to_luastring('ARGV'));
+    lua.lua_rawgeti(L, lua.LUA_REGISTRYINDEX, ref);
+    return call(0);
+  }
+
+  function loadScript(source: string): string {
+    const sha = crypto.createHash('sha1').update(source).digest('hex');
+    if (!scripts.has(sha)) {
+      if (lauxlib.luaL_loadstring(L, to_luastring(source)) !== lua.LUA_OK) {
+        const message = lua.lua_tojsstring(L, -1);
+        lua.lua_pop(L, 1);
+        throw new Error(`ERR Error compiling script ${message}`);
+      }
+      scripts.set(sha, lauxlib.luaL_ref(L, lua.LUA_REGISTRYINDEX));
+    }
+    return sha;
+  }
+
+  // pipeline() and multi() queue commands and answer exec() with [error, reply] pairs
+  function batch() {
+    const queued: Array<() => Reply> = [];
+    const chain: Record<string, unknown> = {
+      exec: async () =>
+        queued.map((run) => {
+          try {
+            return [null, run()];
+          } catch (err) {
+            return [err, null];
+          }
+        }),
+    };
+    for (const name of CLIENT_COMMANDS) {
+      chain[name] = (...args: unknown[]) => {
+        queued.push(() => command(name, args));
+        return chain;
+      };
+    }
+    return chain;
+  }
+
+  const client: Record<string, unknown> = {
+    status: 'ready',
+    on: () => {},
+    pipeline: batch,
+    multi: batch,
+    evalsha: async (sha: string, numKeys: number, ...rest: Array<string | number>) =>
+      evalsha(sha, numKeys, ...rest),
+    script: async (subcommand: string, source: string) => {
+      if (subcommand.toUpperCase() !== 'LOAD') throw new Error(`ERR unknown subcommand`);
+      return loadScript(source);
+    },
+  };
+  for (const name of CLIENT_COMMANDS) {
+    client[name] = async (...args: unknown[]) => command(name, args);
+  }
+  return client as LuaRedis;
+}
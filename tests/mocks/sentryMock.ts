@@ -0,0 +1,4 @@
+// Sentry mock for testing
+export const init = jest.fn();
+export const captureException = jest.fn();
+export const setTag = jest.fn();
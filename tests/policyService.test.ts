@@ -0,0 +1,53 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const shippedPolicy = path.join(process.cwd(), 'config', 'rate-limits.yaml');
+const policyFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'policy-')), 'rate-limits.yaml');
+process.env.RATE_LIMIT_POLICY_FILE = policyFile;
+
+describe('Rate limit policy', () => {
+  let policyService: typeof import('../services/policyService.ts');
+
+  beforeAll(async () => {
+    fs.copyFileSync(shippedPolicy, policyFile);
+    policyService = await import('../services/policyService.ts');
+  });
+
+  it('loads the shipped policy file', () => {
+    const policy = policyService.getPolicy();
+
+    expect(policy.limiters.auth).toMatchObject({
+      windowMs: 900000,
+      maxRequests: 5,
+      identifier: 'ip',
+    });
+    expect(policy.limiters.auth.algorithm).toBe('sliding-window');
+    expect(policy.routes.map((route) => route.name)).toEqual(['ping', 'data', 'admin', 'upload']);
+    expect(policy.routes[0].pattern.test('/api/v1/ping')).toBe(true);
+  });
+
+  it('applies a valid reload', () => {
+    fs.writeFileSync(
+      policyFile,
+      'limiters:\n  auth:\n    windowMs: 60000\n    maxRequests: 3\nplans:\n  free:\n    burstLimit: 5\n'
+    );
+
+    expect(policyService.reloadPolicy()).toBe(true);
+    expect(policyService.getLimiterPolicy('auth')?.maxRequests).toBe(3);
+    expect(policyService.getPlanOverride('free')).toEqual({ burstLimit: 5 });
+    expect(policyService.getRouteLimits()).toEqual([]);
+  });
+
+  it('rejects an invalid file and keeps the previous policy', () => {
+    const before = policyService.getPolicy();
+    fs.writeFileSync(policyFile, 'limiters:\n  auth:\n    windowMs: -1\n    maxRequests: 3\n');
+
+    expect(policyService.reloadPolicy()).toBe(false);
+    expect(policyService.getPolicy()).toBe(before);
+
+    fs.writeFileSync(policyFile, 'routes:\n  - name: bad\n    pattern: "(["\n');
+    expect(policyService.reloadPolicy()).toBe(false);
+    expect(policyService.getPolicy()).toBe(before);
+  });
+});
@@ -0,0 +1,190 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import express from 'express';
+import { forwardRequest, type ForwardOptions, type ProxyRoute } from '../services/proxyService.ts';
+import { AppError } from '../utils/errors.ts';
+import { createErrorResponse } from '../utils/response.ts';
+
+// Stub upstream: echoes what it received, or misbehaves on demand
+const upstream = http.createServer((req, res) => {
+  if (req.url?.startsWith('/v2/fail')) {
+    res.writeHead(500, { 'content-type': 'text/plain' });
+    res.end('database exploded');
+    return;
+  }
+  if (req.url?.startsWith('/v2/busy')) {
+    res.writeHead(503, { 'content-type': 'text/plain' });
+    res.end('try later');
+    return;
+  }
+  if (req.url?.startsWith('/v2/slow')) {
+    setTimeout(() => res.end('late'), 500);
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    res.writeHead(201, {
+      'content-type': 'application/json',
+      'x-upstream': 'yes',
+      'x-upstream-version': '1.2.3',
+    });
+    res.end(JSON.stringify({ method: req.method, url: req.url, headers: req.headers, body }));
+  });
+});
+
+let route: ProxyRoute;
+let targetUrl: URL;
+let forwardOptions: ForwardOptions = {};
+let forwardedStatus: number | undefined;
+let closeListenersLeft: number | undefined;
+
+const testApp = express();
+testApp.use((req, _res, next) => {
+  (req as any).requestId = 'req-123';
+  (req as any).userId = 'user-1';
+  (req as any).apiKeyId = 'key-1';
+  next();
+});
+testApp.use((req, res, next) => {
+  const closeListeners = res.listenerCount('close');
+  forwardRequest(req, res, route, targetUrl, forwardOptions).then((status) => {
+    forwardedStatus = status;
+    closeListenersLeft = res.listenerCount('close') - closeListeners;
+    if (!res.headersSent) res.status(299).end();
+  }, next);
+});
+testApp.use(
+  (err: AppError, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    res.status(err.statusCode).json(createErrorResponse(err.code, err.message, err.details));
+  }
+);
+
+describe('Proxy forwarding', () => {
+  beforeAll((done) => {
+    upstream.listen(0, '127.0.0.1', () => {
+      const { port } = upstream.address() as AddressInfo;
+      targetUrl = new URL(`http://127.0.0.1:${port}/v2`);
+      route = {
+        name: 'orders',
+        prefix: '/orders',
+        upstream: 'orders',
+        stripPrefix: true,
+        timeoutMs: 200,
+      };
+      done();
+    });
+  });
+
+  afterEach(() => {
+    forwardOptions = {};
+  });
+
+  afterAll((done) => {
+    upstream.close(done);
+  });
+
+  it('forwards method, path, query and body with forwarding headers', async () => {
+    const response = await request(testApp)
+      .post('/orders/42?expand=items')
+      .set('Connection', 'keep-alive, x-internal')
+      .set('X-Internal', 'drop me')
+      .set('Content-Type', 'text/plain')
+      .send('hello')
+      .expect(201);
+
+    expect(response.headers['x-upstream']).toBe('yes');
+    expect(response.body).toMatchObject({
+      method: 'POST',
+      url: '/v2/42?expand=items',
+      body: 'hello',
+    });
+    expect(response.body.headers['x-request-id']).toBe('req-123');
+    expect(response.body.headers['x-forwarded-for']).toBeDefined();
+    expect(response.body.headers['x-forwarded-proto']).toBe('http');
+    expect(response.body.headers['x-internal']).toBeUndefined();
+  });
+
+  it('maps upstream errors into the standard error format', async () => {
+    const response = await request(testApp).get('/orders/fail').expect(500);
+
+    expect(response.body.success).toBe(false);
+    expect(response.body.error).toMatchObject({
+      code: 'UPSTREAM_ERROR',
+      message: 'Internal Server Error',
+      details: { upstream: 'orders', upstreamStatus: 500 },
+    });
+  });
+
+  it('answers 504 when the upstream times out', async () => {
+    const response = await request(testApp).get('/orders/slow').expect(504);
+
+    expect(response.body.error.code).toBe('GATEWAY_TIMEOUT');
+  });
+
+  it('drains retryable statuses and sends a buffered body', async () => {
+    forwardOptions = { retryStatuses: [503] };
+    await request(testApp).get('/orders/busy').expect(299);
+    expect(forwardedStatus).toBe(503);
+    // The response is forwarded again on a retry; this attempt leaves no listener behind
+    expect(closeListenersLeft).toBe(0);
+
+    forwardOptions = { body: Buffer.from('replayed') };
+    const response = await request(testApp)
+      .put('/orders/42')
+      .set('Content-Type', 'text/plain')
+      .send('original')
+      .expect(201);
+    expect(response.body.body).toBe('replayed');
+  });
+
+  it("replaces the caller's credentials and applies transform rules", async () => {
+    process.env.ORDERS_TOKEN = 'upstream-secret';
+    route = {
+      ...route,
+      transform: {
+        request: {
+          rewrite: { pattern: /^\/items\/(\d+)$/, replacement: '/${plan}/item/$1' },
+          setHeaders: { authorization: 'Bearer ${env.ORDERS_TOKEN}', 'x-route': '${route}' },
+          removeHeaders: ['cookie'],
+        },
+        response: {
+          setHeaders: { 'x-served-by': 'gateway' },
+          removeHeaders: ['x-upstream-version'],
+        },
+      },
+    };
+    forwardOptions = {
+      context: {
+        userId: 'user-1',
+        apiKeyId: 'key-1',
+        plan: 'pro',
+        route: 'orders',
+        method: 'GET',
+        path: '/orders/items/7',
+      },
+    };
+
+    const response = await request(testApp)
+      .get('/orders/items/7?apiKey=caller-key&expand=1')
+      .set('x-api-key', 'caller-key')
+      .set('x-user-id', 'spoofed')
+      .set('Cookie', 'session=1')
+      .expect(201);
+
+    expect(response.body.url).toBe('/v2/pro/item/7?expand=1');
+    expect(response.body.headers).toMatchObject({
+      authorization: 'Bearer upstream-secret',
+      'x-user-id': 'user-1',
+      'x-api-key-id': 'key-1',
+      'x-plan': 'pro',
+      'x-route': 'orders',
+    });
+    expect(response.body.headers['x-api-key']).toBeUndefined();
+    expect(response.body.headers.cookie).toBeUndefined();
+    expect(response.headers['x-served-by']).toBe('gateway');
+    expect(response.headers['x-upstream-version']).toBeUndefined();
+  });
+});
@@ -0,0 +1,52 @@
+import request from 'supertest';
+import express from 'express';
+import redis from '../utils/redis.ts';
+import quotaRoutes from '../routes/quota.routes.ts';
+import { errorHandler } from '../middlewares/errorHandler.ts';
+import { validateApiKey } from '../services/apiKeyService.ts';
+import { getPlanQuota } from '../services/rateLimitService.ts';
+import { consumeQuota } from '../services/quotaService.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+jest.mock('../prisma.ts', () => ({
+  __esModule: true,
+  prisma: { quotaUsage: { findUnique: jest.fn(async () => null) } },
+}));
+jest.mock('../services/apiKeyService.ts', () => ({ validateApiKey: jest.fn() }));
+jest.mock('../services/rateLimitService.ts', () => ({ getPlanQuota: jest.fn() }));
+
+const quota = { monthlyQuota: 10, monthlySoftLimit: 8, allowOverage: false };
+
+const app = express();
+app.use('/api/v1/quota', quotaRoutes);
+app.use(errorHandler);
+
+describe('GET /api/v1/quota', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    (validateApiKey as jest.Mock).mockResolvedValue({ userId: 'user-1', apiKeyId: 'key-1' });
+    (getPlanQuota as jest.Mock).mockResolvedValue(quota);
+  });
+
+  it('reports the cycle usage without charging the request to it', async () => {
+    await consumeQuota('key-1', quota, 3);
+
+    await request(app).get('/api/v1/quota').set('x-api-key', 'secret').expect(200);
+    const response = await request(app).get('/api/v1/quota').set('x-api-key', 'secret').expect(200);
+    expect(response.body.data).toMatchObject({
+      quota: 10,
+      used: 3,
+      remaining: 7,
+      softLimitReached: false,
+    });
+    expect(response.headers['x-quota-remaining']).toBeUndefined();
+  });
+
+  it('requires an API key', async () => {
+    await request(app).get('/api/v1/quota').expect(401);
+  });
+});
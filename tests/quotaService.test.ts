@@ -0,0 +1,130 @@
+import redis from '../utils/redis.ts';
+import { prisma } from '../prisma.ts';
+import {
+  consumeQuota,
+  flushQuotaUsage,
+  getCycleBounds,
+  getQuotaUsage,
+} from '../services/quotaService.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+jest.mock('../prisma.ts', () => ({
+  __esModule: true,
+  prisma: { quotaUsage: { findUnique: jest.fn(), upsert: jest.fn() } },
+}));
+
+// QuotaUsage rows by apiKeyId (every test stays within one cycle)
+const rows = new Map<string, { requestCount: number; overageCount: number }>();
+const findUnique = prisma.quotaUsage.findUnique as jest.Mock;
+const upsert = prisma.quotaUsage.upsert as jest.Mock;
+
+const quota = { monthlyQuota: 10, monthlySoftLimit: 8, allowOverage: false };
+
+function cycleKey(apiKeyId: string): string {
+  return `rlq:${apiKeyId}:${getCycleBounds().start.getTime()}`;
+}
+
+describe('Monthly quotas', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    rows.clear();
+    findUnique.mockImplementation(async ({ where }) =>
+      rows.get(where.apiKeyId_cycleStart.apiKeyId)
+    );
+    upsert.mockImplementation(async ({ where, update }) => {
+      const row = rows.get(where.apiKeyId_cycleStart.apiKeyId) ?? {
+        requestCount: 0,
+        overageCount: 0,
+      };
+      row.requestCount += update.requestCount.increment;
+      row.overageCount += update.overageCount.increment;
+      rows.set(where.apiKeyId_cycleStart.apiKeyId, row);
+    });
+  });
+
+  afterEach(async () => {
+    await flushQuotaUsage();
+  });
+
+  it('seeds a new cycle hash from QuotaUsage and flushes what was consumed since', async () => {
+    rows.set('key-1', { requestCount: 7, overageCount: 0 });
+
+    expect(await consumeQuota('key-1', quota)).toMatchObject({
+      isAllowed: true,
+      used: 8,
+      softLimitReached: true,
+    });
+    await consumeQuota('key-1', quota, 2);
+    expect(await consumeQuota('key-1', quota)).toMatchObject({ isAllowed: false, used: 10 });
+    expect(findUnique).toHaveBeenCalledTimes(1);
+
+    await flushQuotaUsage();
+    expect(rows.get('key-1')).toEqual({ requestCount: 10, overageCount: 0 });
+    expect(upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('records only the units past the cap as overage when the plan allows it', async () => {
+    const overage = { ...quota, allowOverage: true };
+    await consumeQuota('key-2', overage, 9);
+
+    expect(await consumeQuota('key-2', overage, 3)).toMatchObject({
+      isAllowed: true,
+      used: 12,
+      overage: 2,
+    });
+    await flushQuotaUsage();
+    expect(rows.get('key-2')).toEqual({ requestCount: 12, overageCount: 2 });
+  });
+
+  it('includes unflushed consumption when a lost hash is seeded again', async () => {
+    await consumeQuota('key-3', quota, 4);
+    await redis.del(cycleKey('key-3'));
+
+    expect(await consumeQuota('key-3', quota)).toMatchObject({ used: 5 });
+  });
+
+  it('seeds from QuotaUsage only once an ongoing flush has written it', async () => {
+    await consumeQuota('key-4', quota, 4);
+    findUnique.mockClear();
+
+    let write: () => void = () => {};
+    upsert.mockImplementationOnce(
+      ({ update }) =>
+        new Promise<void>((resolve) => {
+          write = () => {
+            rows.set('key-4', { requestCount: update.requestCount.increment, overageCount: 0 });
+            resolve();
+          };
+        })
+    );
+    const flushing = flushQuotaUsage();
+    await redis.del(cycleKey('key-4'));
+
+    // The queued usage is on its way to Postgres but not there yet
+    const consumed = consumeQuota('key-4', quota);
+    await new Promise((resolve) => setImmediate(resolve));
+    const readsDuringFlush = findUnique.mock.calls.length;
+
+    write();
+    await flushing;
+    expect(readsDuringFlush).toBe(0);
+    expect(await consumed).toMatchObject({ used: 5 });
+  });
+
+  it('re-queues usage that failed to flush', async () => {
+    await consumeQuota('key-5', quota, 3);
+    upsert.mockRejectedValueOnce(new Error('connection lost'));
+
+    await flushQuotaUsage();
+    expect(rows.has('key-5')).toBe(false);
+    await redis.del(cycleKey('key-5'));
+    expect(await getQuotaUsage('key-5', quota)).toMatchObject({ used: 3, remaining: 7 });
+
+    await flushQuotaUsage();
+    expect(rows.get('key-5')).toEqual({ requestCount: 3, overageCount: 0 });
+  });
+});
@@ -0,0 +1,188 @@
+import redis from '../utils/redis.ts';
+import {
+  evaluateLimit,
+  evaluateWindows,
+  peekLimit,
+  type RateLimitAlgorithm,
+} from '../services/rateLimitAlgorithms.ts';
+import { createRateLimiter } from '../middlewares/rateLimiter.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+jest.mock('../prisma.ts', () => ({ __esModule: true, prisma: {} }));
+// Plan limits (Postgres) aren't involved in limiter configuration
+jest.mock('../services/rateLimitService.ts', () => ({
+  consumeRateLimits: jest.fn(),
+  getPlanConcurrencyLimit: jest.fn(),
+  getPlanQuota: jest.fn(),
+}));
+
+// Aligned to the second, so 1s windows start here
+const start = 1_700_000_010_000;
+let now = start;
+
+function take(algorithm: RateLimitAlgorithm, maxRequests: number, weight: number = 1) {
+  return evaluateLimit(algorithm, 'client', { windowMs: 1000, maxRequests, weight });
+}
+
+describe('Rate limit algorithms', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    now = start;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each<RateLimitAlgorithm>([
+    'sliding-window',
+    'fixed-window',
+    'token-bucket',
+    'gcra',
+    'sliding-log',
+  ])('%s allows the limit, then rejects until the window has passed', async (algorithm) => {
+    for (let i = 0; i < 3; i++) {
+      expect((await take(algorithm, 3)).allowed).toBe(true);
+    }
+    expect(await peekLimit(algorithm, 'client', { windowMs: 1000, maxRequests: 3 })).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+
+    const rejected = await take(algorithm, 3);
+    expect(rejected).toMatchObject({ allowed: false, limit: 3, remaining: 0, retryAfter: 1 });
+
+    now += 2000;
+    expect(await take(algorithm, 3)).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('sliding window throttles a burst split across the window boundary', async () => {
+    now = start + 900;
+    for (let i = 0; i < 10; i++) await take('sliding-window', 10);
+
+    // Just past the boundary, 90% of the previous window still counts
+    now = start + 1100;
+    expect((await take('sliding-window', 10)).allowed).toBe(true);
+    expect((await take('sliding-window', 10)).allowed).toBe(false);
+
+    // Half-way through, half of it does
+    now = start + 1500;
+    expect((await take('sliding-window', 10)).allowed).toBe(true);
+    expect((await take('sliding-window', 10)).allowed).toBe(true);
+  });
+
+  it('fixed window resets at the window boundary', async () => {
+    for (let i = 0; i < 3; i++) await take('fixed-window', 3);
+    now += 999;
+    expect((await take('fixed-window', 3)).allowed).toBe(false);
+    now += 1;
+    expect((await take('fixed-window', 3)).allowed).toBe(true);
+  });
+
+  it('token bucket refills at refillRate', async () => {
+    const params = { windowMs: 1000, maxRequests: 2, weight: 1, refillRate: 1 };
+    await evaluateLimit('token-bucket', 'client', params);
+    await evaluateLimit('token-bucket', 'client', params);
+
+    now += 500;
+    expect(await evaluateLimit('token-bucket', 'client', params)).toMatchObject({
+      allowed: false,
+      retryAfter: 1,
+    });
+    now += 500;
+    expect((await evaluateLimit('token-bucket', 'client', params)).allowed).toBe(true);
+  });
+
+  it('rejects limiters configured with a refillRate that never refills', () => {
+    expect(() =>
+      createRateLimiter({
+        windowMs: 1000,
+        maxRequests: 5,
+        algorithm: 'token-bucket',
+        refillRate: 0,
+      })
+    ).toThrow('refillRate must be positive');
+  });
+
+  it('gcra spaces requests by the emission interval after a burst', async () => {
+    await take('gcra', 2);
+    await take('gcra', 2);
+    expect((await take('gcra', 2)).allowed).toBe(false);
+
+    now += 500;
+    expect((await take('gcra', 2)).allowed).toBe(true);
+    expect((await take('gcra', 2)).allowed).toBe(false);
+  });
+
+  it('sliding log frees each entry exactly one window after it', async () => {
+    await take('sliding-log', 2);
+    now += 400;
+    await take('sliding-log', 2);
+
+    now = start + 999;
+    expect(await take('sliding-log', 2)).toMatchObject({ allowed: false, retryAfter: 1 });
+    now = start + 1000;
+    expect((await take('sliding-log', 2)).allowed).toBe(true);
+    expect((await take('sliding-log', 2)).allowed).toBe(false);
+  });
+
+  it('charges weighted requests by their weight', async () => {
+    expect(await take('fixed-window', 3, 2)).toMatchObject({ allowed: true, remaining: 1 });
+    expect((await take('fixed-window', 3, 2)).allowed).toBe(false);
+    expect((await take('fixed-window', 3, 1)).allowed).toBe(true);
+  });
+
+  describe('multiple windows', () => {
+    const second = { key: 'plan:SECOND', windowMs: 1000, limit: 5 };
+    const minute = { key: 'plan:MINUTE', windowMs: 60_000, limit: 2 };
+
+    it('charges every window or none', async () => {
+      expect((await evaluateWindows([second, minute], 1)).allowed).toBe(true);
+      expect((await evaluateWindows([second, minute], 1)).allowed).toBe(true);
+
+      const rejected = await evaluateWindows([second, minute], 1);
+      expect(rejected.allowed).toBe(false);
+      expect(rejected.windows.map((window) => window.allowed)).toEqual([true, false]);
+      expect(rejected.windows[1]).toMatchObject({ remaining: 0, limit: 2 });
+
+      const peek = await evaluateWindows([second], 1, false);
+      expect(peek.windows[0]).toMatchObject({ used: 2, remaining: 3 });
+    });
+  });
+
+  describe('windows with a burst bucket', () => {
+    const minute = { key: 'plan:MINUTE', windowMs: 60_000, limit: 2 };
+    const burst = { identifier: 'burst:key', windowMs: 1000, maxRequests: 5 };
+
+    it('takes no burst token for a request the windows reject', async () => {
+      await evaluateWindows([minute], 1, true, burst);
+      await evaluateWindows([minute], 1, true, burst);
+
+      const rejected = await evaluateWindows([minute], 1, true, burst);
+      expect(rejected.allowed).toBe(false);
+      expect(rejected.windows[0].allowed).toBe(false);
+      expect(rejected.bucket?.allowed).toBe(true);
+
+      const peek = await evaluateWindows([], 1, false, burst);
+      expect(peek.bucket?.remaining).toBe(3);
+    });
+
+    it('charges no window for a request the bucket rejects', async () => {
+      const single = { ...burst, maxRequests: 1 };
+      expect((await evaluateWindows([minute], 1, true, single)).allowed).toBe(true);
+
+      const rejected = await evaluateWindows([minute], 1, true, single);
+      expect(rejected.allowed).toBe(false);
+      expect(rejected.windows[0].allowed).toBe(true);
+      expect(rejected.bucket).toMatchObject({ allowed: false, remaining: 0, retryAfter: 1 });
+
+      const peek = await evaluateWindows([minute], 1, false);
+      expect(peek.windows[0].used).toBe(1);
+    });
+  });
+});
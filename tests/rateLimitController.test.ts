@@ -0,0 +1,153 @@
+import request from 'supertest';
+import express from 'express';
+import redis from '../utils/redis.ts';
+import rateLimitRoutes from '../routes/rateLimit.routes.ts';
+import { errorHandler } from '../middlewares/errorHandler.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+jest.mock('../prisma.ts', () => ({ __esModule: true, prisma: {} }));
+jest.mock('../services/apiKeyService.ts', () => ({ validateApiKey: jest.fn() }));
+// Plan limits (Postgres) aren't involved in the decision API
+jest.mock('../services/rateLimitService.ts', () => ({
+  consumeRateLimits: jest.fn(),
+  getPlanConcurrencyLimit: jest.fn(),
+  getPlanQuota: jest.fn(),
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/v1/ratelimit', rateLimitRoutes);
+app.use(errorHandler);
+
+// 100s into a window of the shipped `auth` limiter (5 per 15 minutes)
+const now = 1_700_100_100_000;
+
+function check(body: object, path: string = '/api/v1/ratelimit/check') {
+  return request(app).post(path).set('x-service-token', 'service-token').send(body);
+}
+
+describe('Decision API', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    process.env.RATE_LIMIT_SERVICE_TOKEN = 'service-token';
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+  });
+
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_SERVICE_TOKEN;
+    jest.restoreAllMocks();
+  });
+
+  it('answers a malformed check with 400', async () => {
+    const response = await check({ policy: 'auth', cost: -1 }).expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    expect(Object.keys(response.body.error.details).sort()).toEqual(['cost', 'identifier']);
+  });
+
+  it('answers a malformed batch with 400', async () => {
+    const response = await check(
+      { checks: [{ identifier: 'svc', policy: 'auth' }, { identifier: '' }] },
+      '/api/v1/ratelimit/check/batch'
+    ).expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    expect(response.body.error.details).toHaveProperty(['checks.1.identifier']);
+  });
+
+  it('consumes from the named limiter and answers 200 with the decision', async () => {
+    const response = await check({ identifier: 'tenant-1', policy: 'auth', cost: 2 }).expect(200);
+
+    expect(response.body.data).toEqual({
+      policy: 'auth',
+      identifier: 'tenant-1',
+      allowed: true,
+      consumed: true,
+      limit: 5,
+      remaining: 3,
+      resetTime: new Date(now + 800_000).toISOString(),
+      retryAfter: 0,
+    });
+  });
+
+  it('denies with 200 once the budget is spent', async () => {
+    await check({ identifier: 'tenant-2', policy: 'auth', cost: 5 }).expect(200);
+
+    const response = await check({ identifier: 'tenant-2', policy: 'auth' }).expect(200);
+    expect(response.body.data).toMatchObject({
+      allowed: false,
+      consumed: false,
+      remaining: 0,
+      retryAfter: 800,
+    });
+  });
+
+  it('only peeks when consume is false', async () => {
+    await check({ identifier: 'tenant-3', policy: 'auth' });
+
+    // A peek reports what would remain after charging the cost
+    for (let i = 0; i < 2; i++) {
+      const response = await check({ identifier: 'tenant-3', policy: 'auth', consume: false });
+      expect(response.body.data).toMatchObject({ allowed: true, consumed: false, remaining: 3 });
+    }
+  });
+
+  it("charges the limiter's weight when no cost is given", async () => {
+    const response = await check({ identifier: 'tenant-4', policy: 'heavyOperation' });
+
+    expect(response.body.data).toMatchObject({ limit: 50, remaining: 45 });
+  });
+
+  it('answers a batch with one result per check, in order', async () => {
+    const response = await check(
+      {
+        checks: [
+          { identifier: 'tenant-5', policy: 'auth', cost: 5 },
+          { identifier: 'tenant-5', policy: 'auth' },
+          { identifier: 'tenant-5', policy: 'heavyOperation', consume: false },
+        ],
+      },
+      '/api/v1/ratelimit/check/batch'
+    ).expect(200);
+
+    expect(response.body.data.results).toEqual([
+      expect.objectContaining({ policy: 'auth', allowed: true, remaining: 0 }),
+      expect.objectContaining({ policy: 'auth', allowed: false }),
+      expect.objectContaining({ policy: 'heavyOperation', consumed: false, remaining: 45 }),
+    ]);
+  });
+
+  it('rejects a batch naming an unknown policy before running any check', async () => {
+    await check(
+      {
+        checks: [
+          { identifier: 'tenant-6', policy: 'auth' },
+          { identifier: 'tenant-6', policy: 'missing' },
+        ],
+      },
+      '/api/v1/ratelimit/check/batch'
+    ).expect(404);
+
+    const response = await check({ identifier: 'tenant-6', policy: 'auth', consume: false });
+    expect(response.body.data.remaining).toBe(4);
+  });
+
+  it('requires the service token', async () => {
+    await request(app)
+      .post('/api/v1/ratelimit/check')
+      .send({ identifier: 'tenant-7', policy: 'auth' })
+      .expect(401);
+    await request(app)
+      .post('/api/v1/ratelimit/check')
+      .set('x-service-token', 'wrong-token')
+      .send({ identifier: 'tenant-7', policy: 'auth' })
+      .expect(401);
+
+    delete process.env.RATE_LIMIT_SERVICE_TOKEN;
+    await check({ identifier: 'tenant-7', policy: 'auth' }).expect(403);
+  });
+});
@@ -0,0 +1,87 @@
+import request from 'supertest';
+import express from 'express';
+import redis from '../utils/redis.ts';
+import { createRateLimiter } from '../middlewares/rateLimiter.ts';
+import { getFailoverStatus, type FailureMode } from '../services/rateLimitFailover.ts';
+import { errorHandler } from '../middlewares/errorHandler.ts';
+
+let mockRedisReady = true;
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => mockRedisReady,
+}));
+jest.mock('../prisma.ts', () => ({ __esModule: true, prisma: {} }));
+// Plan limits (Postgres) aren't involved in configured limiters
+jest.mock('../services/rateLimitService.ts', () => ({
+  consumeRateLimits: jest.fn(),
+  getPlanConcurrencyLimit: jest.fn(),
+  getPlanQuota: jest.fn(),
+}));
+
+const app = express();
+for (const failureMode of ['open', 'closed', 'fallback'] as FailureMode[]) {
+  app.get(
+    `/${failureMode}`,
+    createRateLimiter({
+      name: failureMode,
+      windowMs: 60_000,
+      maxRequests: 2,
+      algorithm: 'token-bucket',
+      failureMode,
+    }),
+    (_req, res) => {
+      res.status(200).end();
+    }
+  );
+}
+app.use(errorHandler);
+
+describe('Rate limiter failure modes', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    mockRedisReady = false;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lets requests through unchecked when failing open', async () => {
+    for (let i = 0; i < 3; i++) {
+      const response = await request(app).get('/open').expect(200);
+      expect(response.headers['ratelimit-policy']).toBeUndefined();
+    }
+    expect(getFailoverStatus().degraded).toBe(true);
+  });
+
+  it('answers 503 with Retry-After when failing closed', async () => {
+    const response = await request(app).get('/closed').expect(503);
+
+    expect(response.body.error.code).toBe('SERVICE_UNAVAILABLE');
+    expect(response.headers['retry-after']).toBe('5');
+  });
+
+  it('limits in process as a sliding window while falling back', async () => {
+    // 40s into the window: the token bucket is enforced as a 60s sliding window
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_080_000);
+    await request(app).get('/fallback').expect(200);
+    await request(app).get('/fallback').expect(200);
+
+    const rejected = await request(app).get('/fallback').expect(429);
+    expect(rejected.headers['retry-after']).toBe('20');
+  });
+
+  it('goes back to Redis as soon as it is ready', async () => {
+    await request(app).get('/closed').expect(503);
+    const failClosed = getFailoverStatus().decisions.failClosed;
+
+    mockRedisReady = true;
+    await request(app).get('/closed').expect(200);
+    expect(getFailoverStatus()).toMatchObject({
+      degraded: false,
+      decisions: { failClosed },
+    });
+  });
+});
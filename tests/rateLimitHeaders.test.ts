@@ -0,0 +1,37 @@
+import request from 'supertest';
+import express from 'express';
+import { setRateLimitHeaders } from '../utils/rateLimitHeaders.ts';
+
+const testApp = express();
+
+testApp.get('/limited', (_req, res) => {
+  const now = Date.now();
+  setRateLimitHeaders(
+    res,
+    [{ name: 'minute', limit: 100, remaining: 40, resetTime: now + 30_000, windowMs: 60_000 }],
+    { weight: 2 }
+  );
+  setRateLimitHeaders(res, [
+    { name: 'day', limit: 1000, remaining: 5, resetTime: now + 3_600_000, windowMs: 86_400_000 },
+    // Reported again: replaces the earlier entry
+    { name: 'minute', limit: 100, remaining: 39, resetTime: now + 30_000, windowMs: 60_000 },
+  ]);
+  res.json({ ok: true });
+});
+
+describe('Rate limit headers', () => {
+  it('describes every reported policy in the IETF fields', async () => {
+    const response = await request(testApp).get('/limited').expect(200);
+
+    expect(response.headers['ratelimit-policy']).toBe('"minute";q=100;w=60, "day";q=1000;w=86400');
+    expect(response.headers['ratelimit']).toBe('"minute";r=39;t=30, "day";r=5;t=3600');
+  });
+
+  it('keeps the legacy headers for the most restrictive policy', async () => {
+    const response = await request(testApp).get('/limited').expect(200);
+
+    expect(response.headers['x-ratelimit-limit']).toBe('1000');
+    expect(response.headers['x-ratelimit-remaining']).toBe('5');
+    expect(response.headers['x-ratelimit-weight']).toBe('2');
+  });
+});
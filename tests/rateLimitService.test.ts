@@ -0,0 +1,184 @@
+import redis from '../utils/redis.ts';
+import { prisma } from '../prisma.ts';
+import {
+  checkRateLimits,
+  consumeRateLimits,
+  flushUsage,
+  recordRequest,
+  startUsageFlusher,
+  stopUsageFlusher,
+} from '../services/rateLimitService.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+jest.mock('../prisma.ts', () => ({
+  __esModule: true,
+  prisma: {
+    apiKey: { findUnique: jest.fn() },
+    usage: { updateMany: jest.fn(), create: jest.fn() },
+  },
+}));
+
+const plan = {
+  name: 'test',
+  requestsPerMinute: 3,
+  requestsPerHour: 100,
+  requestsPerDay: 1000,
+  burstLimit: 0,
+};
+
+// Owner and plan scope of the API keys, by id (any other key is user-1's, at key scope)
+const apiKeys: Record<string, { userId: string; limitScope: 'KEY' | 'USER' }> = {
+  'shared-a': { userId: 'user-2', limitScope: 'USER' },
+  'shared-b': { userId: 'user-2', limitScope: 'USER' },
+  'own-a': { userId: 'user-3', limitScope: 'KEY' },
+  'own-b': { userId: 'user-3', limitScope: 'KEY' },
+};
+
+// Usage rows by `${apiKeyId}:${period}:${bucket}`
+const rows = new Map<string, number>();
+const updateMany = prisma.usage.updateMany as jest.Mock;
+const create = prisma.usage.create as jest.Mock;
+
+function rowKey({ apiKeyId, peroid, timestampBucket }: any): string {
+  return `${apiKeyId}:${peroid}:${timestampBucket.getTime()}`;
+}
+
+describe('Plan limits', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    rows.clear();
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_010_000);
+    (prisma.apiKey.findUnique as jest.Mock).mockImplementation(async ({ where }) => {
+      const { userId, limitScope } = apiKeys[where.id] ?? { userId: 'user-1', limitScope: 'KEY' };
+      return { id: where.id, userId, plan: { ...plan, limitScope } };
+    });
+    updateMany.mockImplementation(async ({ where, data }) => {
+      // Answer on a later turn, as a database would
+      await new Promise((resolve) => setImmediate(resolve));
+      if (!rows.has(rowKey(where))) return { count: 0 };
+      rows.set(rowKey(where), rows.get(rowKey(where))! + data.requestCount.increment);
+      return { count: 1 };
+    });
+    create.mockImplementation(async ({ data }) => {
+      rows.set(rowKey(data), (rows.get(rowKey(data)) ?? 0) + data.requestCount);
+    });
+  });
+
+  afterEach(async () => {
+    await flushUsage();
+    jest.restoreAllMocks();
+  });
+
+  describe('Redis counters', () => {
+    it('counts requests in Redis and rejects past the smallest window', async () => {
+      for (let i = 0; i < 3; i++) {
+        expect((await consumeRateLimits('key-1')).isAllowed).toBe(true);
+      }
+      expect(await checkRateLimits('key-1')).toMatchObject({ isAllowed: false, remaining: 0 });
+
+      const rejected = await consumeRateLimits('key-1');
+      expect(rejected).toMatchObject({ isAllowed: false, constraint: 'minute', limit: 3 });
+      expect(rejected.windows?.find(({ constraint }) => constraint === 'hour')?.remaining).toBe(97);
+      expect(updateMany).not.toHaveBeenCalled();
+    });
+
+    it('records requests without checking them', async () => {
+      for (let i = 0; i < 4; i++) await recordRequest('key-2');
+
+      expect(await checkRateLimits('key-2')).toMatchObject({ isAllowed: false, remaining: 0 });
+    });
+  });
+
+  describe('levels', () => {
+    it("shares one budget across all of a user's keys at user scope", async () => {
+      await consumeRateLimits('shared-a');
+      await consumeRateLimits('shared-a');
+      expect(await consumeRateLimits('shared-b')).toMatchObject({
+        isAllowed: true,
+        remaining: 0,
+        scope: 'user',
+      });
+
+      // shared-b has used one request of its own
+      const rejected = await consumeRateLimits('shared-b');
+      expect(rejected).toMatchObject({
+        isAllowed: false,
+        constraint: 'minute',
+        scope: 'user',
+        limit: 3,
+      });
+      expect(rejected.windows?.find(({ scope }) => scope === 'key')?.remaining).toBe(2);
+    });
+
+    it('gives every key its own budget at key scope', async () => {
+      for (let i = 0; i < 3; i++) {
+        expect((await consumeRateLimits('own-a')).isAllowed).toBe(true);
+      }
+      expect(await consumeRateLimits('own-a')).toMatchObject({ isAllowed: false, scope: 'key' });
+      expect(await consumeRateLimits('own-b')).toMatchObject({ isAllowed: true, remaining: 2 });
+    });
+  });
+
+  describe('usage flush', () => {
+    it('writes aggregated counts to Usage, one row per period bucket', async () => {
+      await consumeRateLimits('key-3');
+      await consumeRateLimits('key-3');
+
+      await flushUsage();
+      expect([...rows.values()]).toEqual([2, 2, 2]);
+      expect(create).toHaveBeenCalledTimes(3);
+
+      await consumeRateLimits('key-3');
+      await flushUsage();
+      await flushUsage();
+      expect([...rows.values()]).toEqual([3, 3, 3]);
+      expect(create).toHaveBeenCalledTimes(3);
+    });
+
+    it('re-queues counts that failed to persist', async () => {
+      await consumeRateLimits('key-4');
+      updateMany.mockRejectedValueOnce(new Error('connection lost'));
+
+      await flushUsage();
+      expect(rows.size).toBe(2);
+      await consumeRateLimits('key-4');
+      await flushUsage();
+      expect([...rows.values()]).toEqual([2, 2, 2]);
+    });
+
+    it('never runs two flushes at once', async () => {
+      await consumeRateLimits('key-5');
+      const first = flushUsage();
+      await consumeRateLimits('key-5');
+      const second = flushUsage();
+
+      await Promise.all([first, second]);
+      expect([...rows.values()]).toEqual([2, 2, 2]);
+      expect(create).toHaveBeenCalledTimes(3);
+    });
+
+    it('flushes in the background and once more when stopped', async () => {
+      jest.useFakeTimers({ now: 1_700_000_010_000, doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        startUsageFlusher(5000);
+        await consumeRateLimits('key-6');
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(updateMany).toHaveBeenCalled();
+        // Waits for the flush the interval started
+        await flushUsage();
+        expect([...rows.values()]).toEqual([1, 1, 1]);
+        expect(create).toHaveBeenCalledTimes(3);
+
+        await consumeRateLimits('key-6');
+        await stopUsageFlusher();
+        expect([...rows.values()]).toEqual([2, 2, 2]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
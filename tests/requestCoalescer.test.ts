@@ -0,0 +1,35 @@
+import { createRequestCoalescer } from '../utils/requestCoalescer.ts';
+
+describe('Request coalescing', () => {
+  it('lets the first caller lead and hands its result to callers in flight', async () => {
+    const coalescer = createRequestCoalescer<string>();
+
+    const leader = coalescer.join('/orders');
+    const follower = coalescer.join('/orders');
+    const other = coalescer.join('/users');
+    expect(leader.leader).toBe(true);
+    expect(follower.leader).toBe(false);
+    expect(other.leader).toBe(true);
+    expect(coalescer.inFlight()).toBe(2);
+
+    if (!leader.leader || follower.leader) throw new Error('unexpected roles');
+    leader.settle('response');
+    await expect(follower.result).resolves.toBe('response');
+    expect(coalescer.inFlight()).toBe(1);
+  });
+
+  it('starts a new flight once the previous one settled', async () => {
+    const coalescer = createRequestCoalescer<string>();
+
+    const first = coalescer.join('/orders');
+    if (!first.leader) throw new Error('unexpected role');
+    first.settle(null);
+
+    const second = coalescer.join('/orders');
+    expect(second.leader).toBe(true);
+
+    // A late second settle of the first flight leaves the new one alone
+    first.settle('late');
+    expect(coalescer.join('/orders').leader).toBe(false);
+  });
+});
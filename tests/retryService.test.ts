@@ -0,0 +1,56 @@
+import {
+  backoffDelay,
+  hasRetryBudget,
+  recordRetry,
+  recordRetryableRequest,
+  resetRetryBudgets,
+  type RetryPolicy,
+} from '../services/retryService.ts';
+
+const policy: RetryPolicy = {
+  attempts: 3,
+  methods: ['GET'],
+  statuses: [503],
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  budgetPercent: 20,
+  minRetriesPerSecond: 0,
+};
+
+describe('Retry policy', () => {
+  beforeEach(() => {
+    resetRetryBudgets();
+  });
+
+  it('backs off exponentially with full jitter, up to maxDelayMs', () => {
+    expect(backoffDelay(policy, 1, () => 0.999)).toBe(99);
+    expect(backoffDelay(policy, 3, () => 0.5)).toBe(200);
+    expect(backoffDelay(policy, 10, () => 0.999)).toBe(999);
+    expect(backoffDelay(policy, 2, () => 0)).toBe(0);
+  });
+
+  it('caps retries to a share of the requests in the window', () => {
+    const now = 1_000_000;
+    for (let i = 0; i < 10; i++) recordRetryableRequest('orders', now);
+
+    expect(hasRetryBudget('orders', policy, now)).toBe(true);
+    recordRetry('orders', now);
+    recordRetry('orders', now);
+    expect(hasRetryBudget('orders', policy, now)).toBe(false);
+
+    // Other routes have their own budget
+    recordRetryableRequest('users', now);
+    expect(hasRetryBudget('users', { ...policy, minRetriesPerSecond: 0.1 }, now)).toBe(true);
+  });
+
+  it('frees the budget as the window moves on', () => {
+    const now = 1_000_000;
+    for (let i = 0; i < 5; i++) recordRetryableRequest('orders', now);
+    recordRetry('orders', now);
+    expect(hasRetryBudget('orders', policy, now)).toBe(false);
+
+    const later = now + 10_000;
+    for (let i = 0; i < 5; i++) recordRetryableRequest('orders', later);
+    expect(hasRetryBudget('orders', policy, later)).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+import request from 'supertest';
+import express from 'express';
+import redis from '../utils/redis.ts';
+import {
+  createRouteRateLimiter,
+  inspectRouteLimits,
+  type RouteRateLimit,
+} from '../middlewares/routeRateLimiter.ts';
+import { errorHandler } from '../middlewares/errorHandler.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+
+const limits: RouteRateLimit[] = [
+  { pattern: /^\/upload/, name: 'upload', requestsPerMinute: 2, burstLimit: 5 },
+];
+
+const app = express();
+app.use((req, _res, next) => {
+  (req as any).apiKeyId = 'key-1';
+  next();
+});
+app.use(createRouteRateLimiter(limits));
+app.post('/upload', (_req, res) => {
+  res.status(201).end();
+});
+app.use(errorHandler);
+
+describe('Route rate limiter', () => {
+  beforeEach(async () => {
+    await redis.flushall();
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_010_000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('takes no burst token for requests over the route window', async () => {
+    await request(app).post('/upload').expect(201);
+    await request(app).post('/upload').expect(201);
+
+    const rejected = await request(app).post('/upload').expect(429);
+    expect(rejected.headers['x-ratelimit-constraint']).toBe('minute');
+
+    const [upload] = await inspectRouteLimits('key-1', limits);
+    const burst = upload.windows?.find(({ window }) => window === 'burst');
+    expect(burst?.decision.remaining).toBe(3);
+  });
+});
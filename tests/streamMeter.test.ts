@@ -0,0 +1,45 @@
+import { Readable } from 'stream';
+import { createMessageRateLimiter, meterEventStream } from '../utils/streamMeter.ts';
+
+async function collect(chunks: string[], messagesPerSecond: number): Promise<string> {
+  let output = '';
+  const metered = Readable.from(chunks.map((chunk) => Buffer.from(chunk))).pipe(
+    meterEventStream(createMessageRateLimiter(messagesPerSecond))
+  );
+  for await (const chunk of metered) {
+    output += chunk.toString();
+  }
+  return output;
+}
+
+describe('Stream metering', () => {
+  it('allows a second worth of messages, then refills over time', () => {
+    const limiter = createMessageRateLimiter(2);
+    const now = Date.now();
+
+    expect(limiter.take(now)).toBe(true);
+    expect(limiter.take(now)).toBe(true);
+    expect(limiter.take(now)).toBe(false);
+    expect(limiter.take(now + 499)).toBe(false);
+    expect(limiter.take(now + 1000)).toBe(true);
+  });
+
+  it('passes events split across chunks through unchanged', async () => {
+    const output = await collect(['data: one\n', '\n: keep-alive\n\nda', 'ta: two\r\n\r\n'], 2);
+
+    expect(output).toBe('data: one\n\n: keep-alive\n\ndata: two\r\n\r\n');
+  });
+
+  it('ends the stream with an error event once over the rate', async () => {
+    const output = await collect(['data: 1\n\ndata: 2\n\n', 'data: 3\n\ndata: 4\n\n'], 2);
+    const events = output.split('\n\n').filter(Boolean);
+
+    expect(events.slice(0, 2)).toEqual(['data: 1', 'data: 2']);
+    expect(events).toHaveLength(3);
+    expect(events[2]).toMatch(/^event: error\ndata: /);
+    expect(JSON.parse(events[2].split('data: ')[1]).error).toMatchObject({
+      code: 'RATE_LIMIT_EXCEEDED',
+      details: { messagesPerSecond: 2 },
+    });
+  });
+});
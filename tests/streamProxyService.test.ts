@@ -0,0 +1,173 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import redis from '../utils/redis.ts';
+import { validateApiKey } from '../services/apiKeyService.ts';
+import {
+  consumeRateLimits,
+  getPlanStreamLimits,
+  logRequest,
+} from '../services/rateLimitService.ts';
+import { attachWebSocketProxy, closeWebSockets } from '../services/streamProxyService.ts';
+
+jest.mock('../utils/redis.ts', () => ({
+  __esModule: true,
+  default: jest.requireActual('./mocks/luaRedis.ts').createLuaRedis(),
+  isRedisReady: () => true,
+}));
+jest.mock('../prisma.ts', () => ({ __esModule: true, prisma: {} }));
+jest.mock('../services/apiKeyService.ts', () => ({ validateApiKey: jest.fn() }));
+jest.mock('../services/rateLimitService.ts', () => ({
+  consumeRateLimits: jest.fn(),
+  getPlanName: jest.fn(async () => 'test'),
+  getPlanStreamLimits: jest.fn(),
+  logRequest: jest.fn(async () => {}),
+}));
+
+let mockTarget: URL;
+jest.mock('../services/proxyConfigService.ts', () => ({
+  getProxyRoutes: () => [{ name: 'chat', prefix: '/chat', upstream: 'chat', stripPrefix: true }],
+}));
+jest.mock('../services/upstreamPoolService.ts', () => ({
+  getPool: () => undefined,
+  pickTarget: () => ({ url: mockTarget, release: () => {} }),
+}));
+
+// Stub upstream: greets every connection as soon as it opens, then echoes
+const upstream = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+upstream.on('connection', (socket) => {
+  socket.send('hello');
+  socket.on('message', (data, isBinary) => socket.send(data, { binary: isBinary }));
+});
+
+const server = http.createServer();
+attachWebSocketProxy(server);
+let gatewayUrl: string;
+
+interface Stream {
+  socket: WebSocket;
+  messages: string[];
+  opened: Promise<void>;
+  closed: Promise<{ code: number; reason: string }>;
+}
+
+function connect(headers: Record<string, string> = { 'x-api-key': 'secret' }): Stream {
+  const socket = new WebSocket(`${gatewayUrl}/chat/room`, { headers });
+  const messages: string[] = [];
+  socket.on('message', (data) => messages.push(data.toString()));
+  return {
+    socket,
+    messages,
+    opened: new Promise((resolve) => socket.once('open', () => resolve())),
+    closed: new Promise((resolve) =>
+      socket.once('close', (code, reason) => resolve({ code, reason: reason.toString() }))
+    ),
+  };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('WebSocket proxy', () => {
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    gatewayUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    mockTarget = new URL(`http://127.0.0.1:${(upstream.address() as AddressInfo).port}`);
+  });
+
+  beforeEach(async () => {
+    await redis.flushall();
+    (validateApiKey as jest.Mock).mockImplementation(async (key: string) =>
+      key === 'secret' ? { userId: 'user-1', apiKeyId: 'key-1' } : null
+    );
+    (consumeRateLimits as jest.Mock).mockResolvedValue({ isAllowed: true });
+    (getPlanStreamLimits as jest.Mock).mockResolvedValue({ maxStreams: 1, messagesPerSecond: 0 });
+  });
+
+  afterAll(async () => {
+    closeWebSockets();
+    await new Promise((resolve) => server.close(resolve));
+    await new Promise((resolve) => upstream.close(resolve));
+  });
+
+  it('answers 401 to upgrades without a valid API key', async () => {
+    for (const headers of [{}, { 'x-api-key': 'wrong' }]) {
+      const socket = new WebSocket(`${gatewayUrl}/chat/room`, { headers });
+      socket.on('error', () => {});
+      const status = await new Promise<number | undefined>((resolve) => {
+        socket.once('unexpected-response', (req, res) => {
+          res.resume();
+          req.destroy();
+          resolve(res.statusCode);
+        });
+        socket.once('open', () => resolve(undefined));
+      });
+      expect(status).toBe(401);
+    }
+  });
+
+  it('relays what the upstream sends before the client handshake completes', async () => {
+    const stream = connect();
+    await stream.opened;
+    stream.socket.send('ping');
+
+    await waitFor(() => stream.messages.length === 2);
+    expect(stream.messages).toEqual(['hello', 'ping']);
+    stream.socket.close();
+    await stream.closed;
+  });
+
+  it('closes with 1013 over the stream limit and releases the lease on close', async () => {
+    const first = connect();
+    await first.opened;
+
+    const second = connect();
+    expect((await second.closed).code).toBe(1013);
+
+    first.socket.close();
+    await first.closed;
+    await waitFor(() => (logRequest as jest.Mock).mock.calls.length === 1);
+    expect(logRequest).toHaveBeenCalledWith(
+      'key-1',
+      '/chat/room',
+      101,
+      expect.any(Number),
+      expect.anything()
+    );
+
+    const third = connect();
+    await third.opened;
+    third.socket.close();
+    expect((await third.closed).code).toBe(1005);
+  });
+
+  it('closes with 1008 when the client exceeds its message rate', async () => {
+    (getPlanStreamLimits as jest.Mock).mockResolvedValue({ maxStreams: 1, messagesPerSecond: 2 });
+    const stream = connect();
+    await stream.opened;
+    for (let i = 0; i < 3; i++) stream.socket.send(`message ${i}`);
+
+    const { code, reason } = await stream.closed;
+    expect(code).toBe(1008);
+    expect(reason).toBe('Message rate exceeded (2/s)');
+  });
+
+  it('closes with 1013 when the plan rate limit is exhausted', async () => {
+    (consumeRateLimits as jest.Mock).mockResolvedValue({
+      isAllowed: false,
+      constraint: 'minute',
+      limit: 60,
+      retryAfter: 30,
+    });
+    const stream = connect();
+
+    expect(await stream.closed).toEqual({
+      code: 1013,
+      reason: 'Rate limit exceeded. Try again in 30 seconds',
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  configurePools,
+  getPoolStatus,
+  pickTarget,
+  runHealthChecks,
+  stopHealthChecks,
+} from '../services/upstreamPoolService.ts';
+
+// Stub targets whose health endpoint can be switched off
+function stubTarget(): Promise<{
+  server: http.Server;
+  url: URL;
+  setHealthy: (ok: boolean) => void;
+}> {
+  let healthy = true;
+  const server = http.createServer((_req, res) => {
+    res.statusCode = healthy ? 200 : 503;
+    res.end();
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        server,
+        url: new URL(`http://127.0.0.1:${port}`),
+        setHealthy: (ok) => (healthy = ok),
+      });
+    });
+  });
+}
+
+const passive = { maxFailures: 2, ejectMs: 60_000 };
+
+describe('Upstream pools', () => {
+  let a: Awaited<ReturnType<typeof stubTarget>>;
+  let b: Awaited<ReturnType<typeof stubTarget>>;
+
+  beforeAll(async () => {
+    a = await stubTarget();
+    b = await stubTarget();
+  });
+
+  afterAll(async () => {
+    stopHealthChecks();
+    await Promise.all([a, b].map(({ server }) => new Promise((done) => server.close(done))));
+  });
+
+  function pickHosts(pool: string, count: number): string[] {
+    return Array.from({ length: count }, () => {
+      const target = pickTarget(pool);
+      target.release('success');
+      return target.url.host;
+    });
+  }
+
+  it('balances round-robin and by weight', () => {
+    configurePools([
+      {
+        name: 'rr',
+        balancer: 'round-robin',
+        targets: [
+          { url: a.url, weight: 1 },
+          { url: b.url, weight: 1 },
+        ],
+        passive,
+      },
+      {
+        name: 'w',
+        balancer: 'weighted',
+        targets: [
+          { url: a.url, weight: 3 },
+          { url: b.url, weight: 1 },
+        ],
+        passive,
+      },
+    ]);
+
+    expect(pickHosts('rr', 4)).toEqual([a.url.host, b.url.host, a.url.host, b.url.host]);
+
+    const weighted = pickHosts('w', 8);
+    expect(weighted.filter((host) => host === a.url.host)).toHaveLength(6);
+  });
+
+  it('sends least-connections traffic to the least busy target', () => {
+    configurePools([
+      {
+        name: 'lc',
+        balancer: 'least-connections',
+        targets: [
+          { url: a.url, weight: 1 },
+          { url: b.url, weight: 1 },
+        ],
+        passive,
+      },
+    ]);
+
+    const busy = pickTarget('lc');
+    const next = pickTarget('lc');
+    expect(next.url.host).not.toBe(busy.url.host);
+    next.release('success');
+    expect(pickTarget('lc').url.host).toBe(next.url.host);
+  });
+
+  it('ejects a target after consecutive failures', () => {
+    configurePools([
+      {
+        name: 'rr',
+        balancer: 'round-robin',
+        targets: [
+          { url: a.url, weight: 1 },
+          { url: b.url, weight: 1 },
+        ],
+        passive,
+      },
+    ]);
+
+    for (let i = 0; i < 4; i++) {
+      const target = pickTarget('rr');
+      target.release(target.url.host === a.url.host ? 'failure' : 'success');
+    }
+
+    expect(pickHosts('rr', 3)).toEqual([b.url.host, b.url.host, b.url.host]);
+    expect(getPoolStatus().rr.targets[0]).toMatchObject({ ejected: true });
+  });
+
+  it('takes a target out after failed health checks and back when it recovers', async () => {
+    const healthCheck = {
+      path: '/healthz',
+      intervalMs: 60_000,
+      timeoutMs: 500,
+      healthyThreshold: 1,
+      unhealthyThreshold: 2,
+    };
+    configurePools([
+      {
+        name: 'hc',
+        balancer: 'round-robin',
+        targets: [
+          { url: a.url, weight: 1 },
+          { url: b.url, weight: 1 },
+        ],
+        healthCheck,
+        passive,
+      },
+    ]);
+
+    b.setHealthy(false);
+    await runHealthChecks('hc');
+    await runHealthChecks('hc');
+    expect(pickHosts('hc', 2)).toEqual([a.url.host, a.url.host]);
+    expect(getPoolStatus().hc).toMatchObject({ healthy: 1 });
+
+    b.setHealthy(true);
+    await runHealthChecks('hc');
+    expect(new Set(pickHosts('hc', 2))).toEqual(new Set([a.url.host, b.url.host]));
+  });
+
+  it('rejects with 503 when no target is available', () => {
+    configurePools([
+      { name: 'one', balancer: 'round-robin', targets: [{ url: a.url, weight: 1 }], passive },
+    ]);
+    pickTarget('one').release('failure');
+    pickTarget('one').release('failure');
+
+    expect(() => pickTarget('one')).toThrow(expect.objectContaining({ statusCode: 503 }));
+  });
+});
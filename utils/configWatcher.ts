@@ -0,0 +1,36 @@
+/**
+ * Config file watching
+ * Watches the file's directory so editors that replace the file (rename on save) are
+ * picked up, and debounces the several events editors often emit per save.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface ConfigWatcher {
+  close(): void;
+}
+
+export function watchConfigFile(filePath: string, onChange: () => void): ConfigWatcher {
+  let reloadTimer: NodeJS.Timeout | null = null;
+
+  const watcher = fs.watch(path.dirname(filePath), (_event, filename) => {
+    if (filename && filename.toString() !== path.basename(filePath)) return;
+    if (reloadTimer) clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(() => {
+      reloadTimer = null;
+      onChange();
+    }, 200);
+  });
+  watcher.unref();
+
+  return {
+    close() {
+      if (reloadTimer) {
+        clearTimeout(reloadTimer);
+        reloadTimer = null;
+      }
+      watcher.close();
+    },
+  };
+}
@@ -24,6 +24,25 @@ const envSchema = z.object({
   
   // Rate Limiting
   TRUST_PROXY: z.union([z.string(), z.number()]).default('1'),
+  USAGE_FLUSH_INTERVAL_MS: z.string().transform(Number).pipe(z.number()).default(() => 5000),
+  RATE_LIMIT_POLICY_FILE: z.string().default('config/rate-limits.yaml'),
+  RATE_LIMIT_FAILURE_MODE: z.enum(['open', 'closed', 'fallback']).default('closed'),
+  RATE_LIMIT_HEADERS: z.enum(['ietf', 'legacy', 'both']).default('both'),
+  CONCURRENCY_LEASE_TTL_MS: z.string().transform(Number).pipe(z.number().int().min(1000)).default(() => 30000),
+  RATE_LIMIT_EXPECTED_REPLICAS: z.string().transform(Number).pipe(z.number().int().positive()).default(() => 1),
+  IDEMPOTENCY_KEY_TTL_SECONDS: z.string().transform(Number).pipe(z.number().int().positive()).default(() => 86400),
+  
+  // Gateway proxy
+  GATEWAY_CONFIG_FILE: z.string().default('config/gateway.yaml'),
+  PROXY_CONNECT_TIMEOUT_MS: z.string().transform(Number).pipe(z.number().int().positive()).default(() => 5000),
+  PROXY_TIMEOUT_MS: z.string().transform(Number).pipe(z.number().int().positive()).default(() => 30000),
+  
+  // Admin API (disabled when unset)
+  ADMIN_API_TOKEN: z.string().min(32, 'ADMIN_API_TOKEN must be at least 32 characters').optional(),
+  
+  // Decision API and nginx auth_request endpoint for internal services (disabled when unset)
+  RATE_LIMIT_SERVICE_TOKEN: z.string().min(32, 'RATE_LIMIT_SERVICE_TOKEN must be at least 32 characters').optional(),
+  ENVOY_RLS_PORT: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
   
   // CORS
   CORS_ORIGIN: z.string().default('*'),
@@ -8,9 +8,16 @@ export const ErrorCode = {
   FORBIDDEN: 'FORBIDDEN',
   NOT_FOUND: 'NOT_FOUND',
   CONFLICT: 'CONFLICT',
+  IDEMPOTENCY_KEY_REUSED: 'IDEMPOTENCY_KEY_REUSED',
   RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
+  CONCURRENCY_LIMIT_EXCEEDED: 'CONCURRENCY_LIMIT_EXCEEDED',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
   INTERNAL_SERVER_ERROR: 'INTERNAL_SERVER_ERROR',
   BAD_REQUEST: 'BAD_REQUEST',
+  SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
+  BAD_GATEWAY: 'BAD_GATEWAY',
+  GATEWAY_TIMEOUT: 'GATEWAY_TIMEOUT',
+  UPSTREAM_ERROR: 'UPSTREAM_ERROR',
 } as const;
 
 export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode];
@@ -87,21 +94,69 @@ export class NotFoundError extends AppError {
 }
 
 export class ConflictError extends AppError {
-  constructor(message: string) {
-    super(ErrorCode.CONFLICT, 409, message);
+  constructor(message: string, details?: Record<string, any>) {
+    super(ErrorCode.CONFLICT, 409, message, details);
     this.name = 'ConflictError';
     Object.setPrototypeOf(this, ConflictError.prototype);
   }
 }
 
+export class IdempotencyKeyReusedError extends AppError {
+  constructor(message: string = 'Idempotency-Key was already used for a different request') {
+    super(ErrorCode.IDEMPOTENCY_KEY_REUSED, 422, message);
+    this.name = 'IdempotencyKeyReusedError';
+    Object.setPrototypeOf(this, IdempotencyKeyReusedError.prototype);
+  }
+}
+
 export class RateLimitError extends AppError {
-  constructor(message: string = 'Too many requests') {
-    super(ErrorCode.RATE_LIMIT_EXCEEDED, 429, message);
+  constructor(message: string = 'Too many requests', details?: Record<string, any>) {
+    super(ErrorCode.RATE_LIMIT_EXCEEDED, 429, message, details);
     this.name = 'RateLimitError';
     Object.setPrototypeOf(this, RateLimitError.prototype);
   }
 }
 
+export class ConcurrencyLimitError extends AppError {
+  constructor(message: string = 'Too many concurrent requests', details?: Record<string, any>) {
+    super(ErrorCode.CONCURRENCY_LIMIT_EXCEEDED, 429, message, details);
+    this.name = 'ConcurrencyLimitError';
+    Object.setPrototypeOf(this, ConcurrencyLimitError.prototype);
+  }
+}
+
+export class QuotaExceededError extends AppError {
+  constructor(message: string = 'Monthly quota exceeded', details?: Record<string, any>) {
+    super(ErrorCode.QUOTA_EXCEEDED, 429, message, details);
+    this.name = 'QuotaExceededError';
+    Object.setPrototypeOf(this, QuotaExceededError.prototype);
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string = 'Service temporarily unavailable', details?: Record<string, any>) {
+    super(ErrorCode.SERVICE_UNAVAILABLE, 503, message, details);
+    this.name = 'ServiceUnavailableError';
+    Object.setPrototypeOf(this, ServiceUnavailableError.prototype);
+  }
+}
+
+export class BadGatewayError extends AppError {
+  constructor(message: string = 'Upstream unavailable', details?: Record<string, any>) {
+    super(ErrorCode.BAD_GATEWAY, 502, message, details);
+    this.name = 'BadGatewayError';
+    Object.setPrototypeOf(this, BadGatewayError.prototype);
+  }
+}
+
+export class GatewayTimeoutError extends AppError {
+  constructor(message: string = 'Upstream timed out', details?: Record<string, any>) {
+    super(ErrorCode.GATEWAY_TIMEOUT, 504, message, details);
+    this.name = 'GatewayTimeoutError';
+    Object.setPrototypeOf(this, GatewayTimeoutError.prototype);
+  }
+}
+
 export class InternalError extends AppError {
   constructor(message: string = 'Internal server error') {
     super(ErrorCode.INTERNAL_SERVER_ERROR, 500, message);
@@ -0,0 +1,156 @@
+/**
+ * HTTP caching rules
+ * The parts of RFC 9111 the gateway's response cache applies: Cache-Control directives,
+ * freshness lifetime, Vary and ETag validation.
+ */
+
+import crypto from 'crypto';
+import type http from 'http';
+
+// apiKey: one cache per API key; shared: one cache for every caller of the route
+export type CacheScope = 'apiKey' | 'shared';
+
+export interface CacheOptions {
+  ttl: number; // seconds; a response's max-age / s-maxage can shorten it, never extend it
+  scope: CacheScope;
+  tags: string[]; // for purging, next to the response's Cache-Tag header
+  coalesce: boolean; // identical GETs in flight share one upstream call
+}
+
+// Longest ttl a route may configure
+export const MAX_CACHE_TTL_SECONDS = 86_400;
+
+export type CacheDirectives = Record<string, string | true>;
+
+// Response headers that describe one exchange rather than the stored representation
+const UNCACHED_HEADERS = new Set([
+  'age',
+  'connection',
+  'content-length',
+  'date',
+  'keep-alive',
+  'retry-after',
+  'set-cookie',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'x-cache',
+  'x-request-id',
+]);
+const UNCACHED_HEADER_PREFIXES = ['ratelimit', 'x-ratelimit'];
+
+export function parseCacheControl(header: string | string[] | undefined): CacheDirectives {
+  const directives: CacheDirectives = {};
+  const value = Array.isArray(header) ? header.join(',') : header || '';
+
+  for (const part of value.split(',')) {
+    const [name, ...rest] = part.split('=');
+    const key = name.trim().toLowerCase();
+    if (!key) continue;
+    const argument = rest.join('=').trim();
+    directives[key] = rest.length ? argument.replace(/^"(.*)"$/, '$1') : true;
+  }
+  return directives;
+}
+
+function seconds(value: string | true | undefined): number | undefined {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+}
+
+/**
+ * Request header names a response varies on (lowercase), or null for `Vary: *`.
+ * Encoded bodies always vary on Accept-Encoding.
+ */
+export function varyHeaders(headers: http.OutgoingHttpHeaders): string[] | null {
+  const vary = String(headers['vary'] ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (vary.includes('*')) return null;
+  if (headers['content-encoding'] && !vary.includes('accept-encoding')) {
+    vary.push('accept-encoding');
+  }
+  return [...new Set(vary)].sort();
+}
+
+/**
+ * Seconds a response may be stored for, 0 when it must not be stored
+ */
+export function responseLifetime(
+  status: number,
+  headers: http.OutgoingHttpHeaders,
+  options: CacheOptions
+): number {
+  if (status !== 200) return 0;
+  if (/text\/event-stream/i.test(String(headers['content-type'] ?? ''))) return 0;
+  if (varyHeaders(headers) === null) return 0;
+
+  const directives = parseCacheControl(headers['cache-control'] as string | undefined);
+  if (directives['no-store'] || directives['no-cache']) return 0;
+  if (options.scope === 'shared' && (directives['private'] || headers['set-cookie'])) return 0;
+
+  const maxAge =
+    (options.scope === 'shared' ? seconds(directives['s-maxage']) : undefined) ??
+    seconds(directives['max-age']);
+  return Math.min(maxAge ?? options.ttl, options.ttl);
+}
+
+/**
+ * Whether the request allows a stored response of this age (seconds) to be used
+ */
+export function acceptsStored(requestHeaders: http.IncomingHttpHeaders, age: number): boolean {
+  const directives = parseCacheControl(requestHeaders['cache-control']);
+  if (directives['no-cache'] || /no-cache/i.test(String(requestHeaders['pragma'] ?? ''))) {
+    return false;
+  }
+  const maxAge = seconds(directives['max-age']);
+  return maxAge === undefined || age <= maxAge;
+}
+
+/**
+ * Identifies the variant of a response selected by the request's Vary headers
+ */
+export function variantId(requestHeaders: http.IncomingHttpHeaders, vary: string[]): string {
+  const hash = crypto.createHash('sha1');
+  for (const name of vary) {
+    const value = requestHeaders[name];
+    hash.update(`${name}:${Array.isArray(value) ? value.join(',') : (value ?? '')}\n`);
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * Weak ETag of a stored body, for responses that come without one
+ */
+export function bodyEtag(body: Buffer): string {
+  return `W/"${crypto.createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+/**
+ * If-None-Match against an ETag, with the weak comparison of RFC 9110 §13.1.2
+ */
+export function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some((candidate) => opaque(candidate) === opaque(etag));
+}
+
+/**
+ * Response headers worth storing: no per-exchange, hop-by-hop or rate limit headers
+ */
+export function storableHeaders(
+  headers: http.OutgoingHttpHeaders
+): Record<string, string | string[]> {
+  const stored: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    const lower = name.toLowerCase();
+    if (UNCACHED_HEADERS.has(lower)) continue;
+    if (UNCACHED_HEADER_PREFIXES.some((prefix) => lower.startsWith(prefix))) continue;
+    stored[lower] = Array.isArray(value) ? value : String(value);
+  }
+  return stored;
+}
@@ -0,0 +1,100 @@
+/**
+ * Rate limit response headers
+ * Every limiter reports its policies here. Policies accumulate on the response, so one
+ * response describes every limit that was checked for it:
+ * - IETF structured fields (draft-ietf-httpapi-ratelimit-headers):
+ *     RateLimit-Policy: "minute";q=100;w=60, "day";q=1000;w=86400
+ *     RateLimit: "minute";r=42;t=18, "day";r=870;t=51020
+ * - Legacy X-RateLimit-Limit / -Remaining / -Reset (epoch ms) for the most restrictive policy
+ * RATE_LIMIT_HEADERS selects `ietf`, `legacy` or `both` (default).
+ */
+
+import express from 'express';
+
+export interface RateLimitPolicyState {
+  name: string; // policy identifier, unique per response
+  limit: number; // quota units per window
+  remaining: number;
+  resetTime: number; // epoch ms
+  windowMs: number;
+}
+
+export type RateLimitHeaderMode = 'ietf' | 'legacy' | 'both';
+
+const HEADER_MODE: RateLimitHeaderMode =
+  process.env.RATE_LIMIT_HEADERS === 'ietf' || process.env.RATE_LIMIT_HEADERS === 'legacy'
+    ? process.env.RATE_LIMIT_HEADERS
+    : 'both';
+
+function toSeconds(ms: number): number {
+  return Math.max(0, Math.ceil(ms / 1000));
+}
+
+// sf-string: only backslash and double quote need escaping
+function quote(name: string): string {
+  return `"${name.replace(/[\\"]/g, (char) => `\\${char}`)}"`;
+}
+
+/**
+ * Header values describing a set of policies, in the configured header mode.
+ * Used as-is by transports other than Express (e.g. the Envoy rate limit service).
+ */
+export function formatRateLimitHeaders(
+  policies: RateLimitPolicyState[],
+  options: { weight?: number } = {}
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (policies.length === 0) return headers;
+
+  const now = Date.now();
+
+  if (HEADER_MODE !== 'legacy') {
+    headers['RateLimit-Policy'] = policies
+      .map(
+        (policy) =>
+          `${quote(policy.name)};q=${policy.limit};w=${Math.max(1, toSeconds(policy.windowMs))}`
+      )
+      .join(', ');
+    headers['RateLimit'] = policies
+      .map(
+        (policy) =>
+          `${quote(policy.name)};r=${Math.max(0, Math.floor(policy.remaining))};t=${toSeconds(policy.resetTime - now)}`
+      )
+      .join(', ');
+  }
+
+  if (HEADER_MODE !== 'ietf') {
+    const mostRestrictive = [...policies].sort((a, b) => a.remaining - b.remaining)[0];
+    headers['X-RateLimit-Limit'] = mostRestrictive.limit.toString();
+    headers['X-RateLimit-Remaining'] = Math.max(0, mostRestrictive.remaining).toString();
+    headers['X-RateLimit-Reset'] = mostRestrictive.resetTime.toString();
+    if (options.weight !== undefined) {
+      headers['X-RateLimit-Weight'] = options.weight.toString();
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Record policies on the response and (re)write the rate limit headers.
+ * A policy reported again under the same name replaces the earlier report.
+ */
+export function setRateLimitHeaders(
+  res: express.Response,
+  policies: RateLimitPolicyState[],
+  options: { weight?: number } = {}
+): void {
+  const reported: RateLimitPolicyState[] = res.locals.rateLimitPolicies || [];
+  for (const policy of policies) {
+    const existing = reported.findIndex((entry) => entry.name === policy.name);
+    if (existing === -1) {
+      reported.push(policy);
+    } else {
+      reported[existing] = policy;
+    }
+  }
+  res.locals.rateLimitPolicies = reported;
+
+  res.set(formatRateLimitHeaders(reported, options));
+}
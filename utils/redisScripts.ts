@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import redis from './redis.ts';
+
+export interface RedisScript {
+  source: string;
+  sha: string;
+}
+
+/**
+ * Define a Lua script. The SHA1 is computed locally so the first call can go
+ * straight to EVALSHA; the script is only uploaded when Redis doesn't know it yet.
+ */
+export function defineScript(source: string): RedisScript {
+  return {
+    source,
+    sha: crypto.createHash('sha1').update(source).digest('hex'),
+  };
+}
+
+/**
+ * Run a script with EVALSHA, loading it on NOSCRIPT (first use, Redis restart or failover)
+ */
+export async function runScript(
+  script: RedisScript,
+  keys: string[],
+  args: Array<string | number>
+): Promise<unknown> {
+  try {
+    return await redis.evalsha(script.sha, keys.length, ...keys, ...args);
+  } catch (err: any) {
+    if (!err || typeof err.message !== 'string' || !err.message.startsWith('NOSCRIPT')) {
+      throw err;
+    }
+    await redis.script('LOAD', script.source);
+    return redis.evalsha(script.sha, keys.length, ...keys, ...args);
+  }
+}
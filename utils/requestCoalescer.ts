@@ -0,0 +1,43 @@
+/**
+ * Request coalescing
+ * Collapses identical concurrent work: the first caller for a key leads and settles the
+ * flight with its result, callers arriving meanwhile wait for that result. Per process.
+ */
+
+export type FlightTicket<T> =
+  | { leader: true; settle: (result: T | null) => void }
+  | { leader: false; result: Promise<T | null> }; // null: the leader had nothing to share
+
+export interface RequestCoalescer<T> {
+  join: (key: string) => FlightTicket<T>;
+  inFlight: () => number;
+}
+
+export function createRequestCoalescer<T>(): RequestCoalescer<T> {
+  const flights = new Map<string, Promise<T | null>>();
+
+  return {
+    join: (key) => {
+      const current = flights.get(key);
+      if (current) {
+        return { leader: false, result: current };
+      }
+
+      let resolve!: (result: T | null) => void;
+      const flight = new Promise<T | null>((done) => {
+        resolve = done;
+      });
+      flights.set(key, flight);
+
+      return {
+        leader: true,
+        settle: (result) => {
+          // Settling twice is harmless and never ends a newer flight for the key
+          if (flights.get(key) === flight) flights.delete(key);
+          resolve(result);
+        },
+      };
+    },
+    inFlight: () => flights.size,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Response capture
+ * A copy of the body an Express response sends, for storing it after the fact
+ * (response cache, idempotent replays).
+ */
+
+import type express from 'express';
+
+/**
+ * Copy the body written to `res`, whether through res.send or a piped stream. Returns a
+ * getter for the copy; null once the body outgrew `limit`.
+ */
+export function captureBody(res: express.Response, limit: number): () => Buffer | null {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let overflow = false;
+
+  const collect = (chunk: any, encoding: unknown) => {
+    if (overflow || chunk == null || typeof chunk === 'function') return;
+    const buffer = Buffer.isBuffer(chunk)
+      ? chunk
+      : Buffer.from(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8');
+    size += buffer.length;
+    if (size > limit) {
+      overflow = true;
+      chunks.length = 0;
+      return;
+    }
+    chunks.push(buffer);
+  };
+
+  const write = res.write;
+  const end = res.end;
+  (res as any).write = (chunk: any, ...args: any[]) => {
+    collect(chunk, args[0]);
+    return (write as any).call(res, chunk, ...args);
+  };
+  (res as any).end = (chunk?: any, ...args: any[]) => {
+    collect(chunk, args[0]);
+    return (end as any).call(res, chunk, ...args);
+  };
+
+  return () => (overflow ? null : Buffer.concat(chunks));
+}
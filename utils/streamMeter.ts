@@ -0,0 +1,92 @@
+/**
+ * Stream metering
+ * Message rate limits inside long-lived streams: WebSocket messages and Server-Sent Events.
+ * Each stream gets its own token bucket holding up to one second's worth of messages.
+ */
+
+import { StringDecoder } from 'string_decoder';
+import { Transform, type TransformCallback } from 'stream';
+import { ErrorCode } from './errors.ts';
+import { createErrorResponse } from './response.ts';
+
+export interface MessageRateLimiter {
+  messagesPerSecond: number;
+  take: (now?: number) => boolean; // false once the stream is over its rate
+}
+
+// WebSocket close codes (RFC 6455 §7.4.1 and the IANA registry)
+export const CloseCode = {
+  NORMAL: 1000,
+  GOING_AWAY: 1001,
+  POLICY_VIOLATION: 1008, // message rate exceeded
+  INTERNAL_ERROR: 1011,
+  TRY_AGAIN_LATER: 1013, // stream or rate limit reached when connecting
+  BAD_GATEWAY: 1014,
+} as const;
+
+export function createMessageRateLimiter(messagesPerSecond: number): MessageRateLimiter {
+  let tokens = messagesPerSecond;
+  let last = Date.now();
+
+  return {
+    messagesPerSecond,
+    take: (now = Date.now()) => {
+      tokens = Math.min(messagesPerSecond, tokens + ((now - last) / 1000) * messagesPerSecond);
+      last = now;
+      if (tokens < 1) return false;
+      tokens--;
+      return true;
+    },
+  };
+}
+
+// Events end with a blank line; any of the three line endings may be used
+const EVENT_END = /\r\n\r\n|\n\n|\r\r/;
+
+/**
+ * Pass a text/event-stream body through, counting events that carry data (comment-only
+ * keep-alives are free). Once the limiter runs out, an `error` event in the standard error
+ * format is sent and the stream ends.
+ */
+export function meterEventStream(limiter: MessageRateLimiter): Transform {
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+  let exceeded = false;
+
+  const forward = (stream: Transform, text: string): void => {
+    pending += text;
+    let match: RegExpExecArray | null;
+    while (!exceeded && (match = EVENT_END.exec(pending))) {
+      const event = pending.slice(0, match.index + match[0].length);
+      pending = pending.slice(event.length);
+
+      const hasData = event.split(/\r\n|\n|\r/).some((line) => /^data(:|$)/.test(line));
+      if (hasData && !limiter.take()) {
+        exceeded = true;
+        const error = createErrorResponse(
+          ErrorCode.RATE_LIMIT_EXCEEDED,
+          `Stream message rate exceeded (${limiter.messagesPerSecond}/s)`,
+          { messagesPerSecond: limiter.messagesPerSecond }
+        );
+        stream.push(`event: error\ndata: ${JSON.stringify(error)}\n\n`);
+        stream.push(null);
+        return;
+      }
+      stream.push(event);
+    }
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      if (!exceeded) forward(this, decoder.write(chunk));
+      callback();
+    },
+    flush(callback: TransformCallback) {
+      if (!exceeded) {
+        forward(this, decoder.end());
+        if (!exceeded && pending) this.push(pending);
+      }
+      callback();
+    },
+  });
+}